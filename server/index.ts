@@ -0,0 +1,441 @@
+// Self-hosted Planest sync server: the HTTP counterpart of src/adapters/httpAdapter.ts.
+// Runs on Node >= 22.18 (`node server/index.ts`, type stripping and node:sqlite) or Deno (`deno run -A server/index.ts`)
+// and keeps everything in a single SQLite file.
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { randomBytes, randomUUID, scryptSync, timingSafeEqual } from 'node:crypto';
+import process from 'node:process';
+
+type Row = Record<string, unknown> & { id: string };
+
+type StoredRow = {
+  data: string;
+};
+
+type User = { id: string; email: string };
+
+// Only the server needs a recent Node; checked before node:sqlite is loaded so older versions
+// get a clear message instead of a missing module.
+const [nodeMajor, nodeMinor] = process.versions.node.split('.').map(Number);
+if (!('Deno' in globalThis) && (nodeMajor < 22 || (nodeMajor === 22 && nodeMinor < 18))) {
+  console.error(`Il server richiede Node 22.18 o successivo (trovato ${process.versions.node}).`);
+  process.exit(1);
+}
+const { DatabaseSync } = await import('node:sqlite');
+
+const port = Number(process.env.PORT ?? 8787);
+const databasePath = process.env.PLANEST_DB ?? 'planest.sqlite';
+const allowedOrigin = process.env.CORS_ORIGIN ?? '*';
+
+const syncTables = new Set(['profiles', 'tags', 'categories', 'items', 'actions', 'subtasks', 'events']);
+const tombstoneTables = new Set(['tags', 'categories', 'items', 'actions', 'subtasks', 'events']);
+// Mirrors the cascade_*_tombstone triggers in supabase/schema.sql: child table and the
+// column pointing at the tombstoned parent.
+const tombstoneChildren: Record<string, Array<[string, string]>> = {
+  categories: [
+    ['items', 'category_id'],
+    ['actions', 'category_id'],
+  ],
+  items: [['actions', 'item_id']],
+  actions: [['subtasks', 'action_id']],
+  events: [['events', 'series_event_id']],
+};
+const maxPageSize = 1000;
+// Room for a push batch of events carrying their attachments as data URLs.
+const maxBodyBytes = 10 * 1024 * 1024;
+
+const db = new DatabaseSync(databasePath);
+db.exec(`
+  create table if not exists rows (
+    tbl text not null,
+    id text not null,
+    data text not null,
+    updated_at text not null,
+    deleted_at text,
+    primary key (tbl, id)
+  );
+  create index if not exists rows_cursor_idx on rows (tbl, updated_at, id);
+  create index if not exists rows_category_idx on rows (tbl, json_extract(data, '$.category_id'));
+  create index if not exists rows_item_idx on rows (tbl, json_extract(data, '$.item_id'));
+  create index if not exists rows_action_idx on rows (tbl, json_extract(data, '$.action_id'));
+  create index if not exists rows_series_event_idx on rows (tbl, json_extract(data, '$.series_event_id'));
+  create table if not exists users (
+    id text primary key,
+    email text not null unique,
+    password_hash text not null,
+    created_at text not null
+  );
+  create table if not exists sessions (
+    token text primary key,
+    user_id text not null references users(id) on delete cascade,
+    created_at text not null
+  );
+`);
+
+class HttpError extends Error {
+  status: number;
+  code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// Every write gets a stamp later than the previous one, so a client that pulls
+// `updated_at > watermark` never misses a row written in the same millisecond.
+let lastStamp = 0;
+const stamp = (): string => {
+  lastStamp = Math.max(Date.now(), lastStamp + 1);
+  return new Date(lastStamp).toISOString();
+};
+
+const hashPassword = (password: string): string => {
+  const salt = randomBytes(16).toString('hex');
+  return `${salt}:${scryptSync(password, salt, 64).toString('hex')}`;
+};
+
+const verifyPassword = (password: string, stored: string): boolean => {
+  const [salt, hash] = stored.split(':');
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+  return timingSafeEqual(expected, actual);
+};
+
+const changeStreams = new Set<ServerResponse>();
+
+const broadcast = (table: string, eventType: 'INSERT' | 'UPDATE' | 'DELETE', row: Row) => {
+  const message = `data: ${JSON.stringify({ table, eventType, row, committedAt: row.updated_at ?? stamp() })}\n\n`;
+  for (const stream of changeStreams) {
+    stream.write(message);
+  }
+};
+
+const readRow = (table: string, id: string): Row | null => {
+  const stored = db.prepare('select data from rows where tbl = ? and id = ?').get(table, id) as StoredRow | undefined;
+  return stored ? (JSON.parse(stored.data) as Row) : null;
+};
+
+const writeRow = (table: string, row: Row) => {
+  db.prepare(
+    `insert into rows (tbl, id, data, updated_at, deleted_at) values (?, ?, ?, ?, ?)
+     on conflict (tbl, id) do update set data = excluded.data, updated_at = excluded.updated_at, deleted_at = excluded.deleted_at`,
+  ).run(table, row.id, JSON.stringify(row), String(row.updated_at), (row.deleted_at as string | null | undefined) ?? null);
+};
+
+// Same semantics as a Postgres upsert: columns the client leaves out (deleted_at,
+// created_at) keep their stored value.
+const upsertRow = (table: string, incoming: Row): Row => {
+  const existing = readRow(table, incoming.id);
+  const now = stamp();
+  const row: Row = {
+    created_at: now,
+    deleted_at: null,
+    ...existing,
+    ...incoming,
+    updated_at: now,
+  };
+  writeRow(table, row);
+  broadcast(table, existing ? 'UPDATE' : 'INSERT', row);
+  return row;
+};
+
+const tombstoneRow = (table: string, id: string) => {
+  const existing = readRow(table, id);
+  if (!existing || existing.deleted_at) {
+    return;
+  }
+  const now = stamp();
+  const row: Row = { ...existing, deleted_at: now, updated_at: now };
+  writeRow(table, row);
+  broadcast(table, 'UPDATE', row);
+
+  for (const [childTable, parentColumn] of tombstoneChildren[table] ?? []) {
+    for (const child of childRows(childTable, parentColumn, id)) {
+      if (!child.deleted_at) {
+        tombstoneRow(childTable, child.id);
+      }
+    }
+  }
+  if (table === 'categories') {
+    for (const child of childRows('events', 'category_id', id)) {
+      upsertRow('events', { ...child, category_id: null });
+    }
+  }
+};
+
+const deleteRow = (table: string, id: string) => {
+  if (tombstoneTables.has(table)) {
+    tombstoneRow(table, id);
+    return;
+  }
+  db.prepare('delete from rows where tbl = ? and id = ?').run(table, id);
+  broadcast(table, 'DELETE', { id });
+};
+
+// Rows of a table pointing at a parent; each foreign key column has an expression index.
+const childRows = (table: string, parentColumn: string, parentId: string): Row[] =>
+  (
+    db.prepare(`select data from rows where tbl = ? and json_extract(data, '$.${parentColumn}') = ?`).all(table, parentId) as StoredRow[]
+  ).map((entry) => JSON.parse(entry.data) as Row);
+
+// One page in (updated_at, id) order after the given cursor and, when asked for, how many
+// rows are left from the start of the page on.
+const listChanges = (table: string, since: string | null, afterId: string, limit: number, withCount: boolean) => {
+  const filter = since ? 'and (updated_at > ? or (updated_at = ? and id > ?))' : '';
+  const params = since ? [table, since, since, afterId] : [table];
+  const stored = db
+    .prepare(`select data from rows where tbl = ? ${filter} order by updated_at, id limit ?`)
+    .all(...params, limit) as StoredRow[];
+  const rows = stored.map((entry) => JSON.parse(entry.data) as Row);
+  if (!withCount) {
+    return { rows, remaining: null };
+  }
+  const { remaining } = db.prepare(`select count(*) as remaining from rows where tbl = ? ${filter}`).get(...params) as {
+    remaining: number;
+  };
+  return { rows, remaining };
+};
+
+const readBody = async (request: IncomingMessage): Promise<Record<string, unknown>> => {
+  const tooLarge = new HttpError(413, 'body_too_large', 'Corpo della richiesta troppo grande');
+  if (Number(request.headers['content-length'] ?? 0) > maxBodyBytes) {
+    throw tooLarge;
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += (chunk as Buffer).length;
+    // Past the limit the rest is drained but not kept, so the 413 still reaches the client.
+    if (size <= maxBodyBytes) {
+      chunks.push(chunk as Buffer);
+    }
+  }
+  if (size > maxBodyBytes) {
+    throw tooLarge;
+  }
+  if (chunks.length === 0) {
+    return {};
+  }
+  let body: unknown = null;
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    // Handled below together with JSON that is not an object.
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new HttpError(400, 'invalid_json', 'Corpo della richiesta non valido');
+  }
+  return body as Record<string, unknown>;
+};
+
+const userForToken = (token: string | null): User | null => {
+  if (!token) {
+    return null;
+  }
+  const user = db
+    .prepare('select users.id, users.email from sessions join users on users.id = sessions.user_id where sessions.token = ?')
+    .get(token) as User | undefined;
+  return user ?? null;
+};
+
+const createSession = (user: User) => {
+  const token = randomBytes(32).toString('hex');
+  db.prepare('insert into sessions (token, user_id, created_at) values (?, ?, ?)').run(token, user.id, stamp());
+  return { token, user };
+};
+
+const requireTable = (table: string): string => {
+  if (!syncTables.has(table)) {
+    throw new HttpError(404, 'unknown_table', `Tabella sconosciuta: ${table}`);
+  }
+  return table;
+};
+
+const requireIds = (body: Record<string, unknown>): string[] => {
+  if (!Array.isArray(body.ids) || body.ids.some((id) => typeof id !== 'string')) {
+    throw new HttpError(400, 'invalid_ids', 'ids deve essere una lista di stringhe');
+  }
+  return body.ids as string[];
+};
+
+const requireRows = (body: Record<string, unknown>): Row[] => {
+  if (!Array.isArray(body.rows) || body.rows.some((row) => typeof row?.id !== 'string')) {
+    throw new HttpError(400, 'invalid_rows', 'rows deve essere una lista di righe con id');
+  }
+  return body.rows as Row[];
+};
+
+const handleAuth = async (action: string, request: IncomingMessage, token: string | null) => {
+  const body = await readBody(request);
+
+  if (action === 'signout') {
+    if (token) {
+      db.prepare('delete from sessions where token = ?').run(token);
+    }
+    return {};
+  }
+
+  const email = String(body.email ?? '').trim().toLowerCase();
+  const password = String(body.password ?? '');
+  if (!email || password.length < 6) {
+    throw new HttpError(400, 'invalid_credentials', 'Email e password (almeno 6 caratteri) sono obbligatorie');
+  }
+
+  if (action === 'signup') {
+    if (db.prepare('select id from users where email = ?').get(email)) {
+      throw new HttpError(409, 'user_exists', 'Utente gia registrato');
+    }
+    const user = { id: randomUUID(), email };
+    db.prepare('insert into users (id, email, password_hash, created_at) values (?, ?, ?, ?)').run(
+      user.id,
+      email,
+      hashPassword(password),
+      stamp(),
+    );
+    upsertRow('profiles', {
+      id: user.id,
+      email,
+      display_name: String(body.displayName ?? '').trim() || email.split('@')[0],
+    });
+    return createSession(user);
+  }
+
+  if (action === 'signin') {
+    const stored = db.prepare('select id, email, password_hash from users where email = ?').get(email) as
+      | { id: string; email: string; password_hash: string }
+      | undefined;
+    if (!stored || !verifyPassword(password, stored.password_hash)) {
+      throw new HttpError(401, 'invalid_credentials', 'Credenziali non valide');
+    }
+    return createSession({ id: stored.id, email: stored.email });
+  }
+
+  throw new HttpError(404, 'not_found', 'Endpoint sconosciuto');
+};
+
+// Same rules as the RLS policies in supabase/schema.sql: planning data is shared by every
+// signed-in family member, while a profile can only be written by its own user and never
+// deleted.
+const requireWritable = (table: string, ids: string[], user: User) => {
+  if (table === 'profiles' && ids.some((id) => id !== user.id)) {
+    throw new HttpError(403, 'forbidden', 'Puoi modificare solo il tuo profilo');
+  }
+};
+
+const handleRows = async (segments: string[], url: URL, request: IncomingMessage, user: User) => {
+  const table = requireTable(segments[1] ?? '');
+  const action = segments[2];
+
+  if (request.method === 'GET' && !action) {
+    const limit = Math.min(Math.max(Number(url.searchParams.get('limit')) || maxPageSize, 1), maxPageSize);
+    return listChanges(
+      table,
+      url.searchParams.get('since'),
+      url.searchParams.get('after_id') ?? '',
+      limit,
+      url.searchParams.get('count') === '1',
+    );
+  }
+  if (request.method !== 'POST') {
+    throw new HttpError(405, 'method_not_allowed', 'Metodo non supportato');
+  }
+
+  const body = await readBody(request);
+  if (!action) {
+    const rows = requireRows(body);
+    requireWritable(table, rows.map((row) => row.id), user);
+    return rows.map((row) => upsertRow(table, row));
+  }
+  if (action === 'fetch') {
+    return requireIds(body)
+      .map((id) => readRow(table, id))
+      .filter((row): row is Row => row !== null);
+  }
+  if (action === 'delete') {
+    if (table === 'profiles') {
+      throw new HttpError(403, 'forbidden', 'I profili non si possono eliminare');
+    }
+    for (const id of requireIds(body)) {
+      deleteRow(table, id);
+    }
+    return null;
+  }
+  throw new HttpError(404, 'not_found', 'Endpoint sconosciuto');
+};
+
+const openChangeStream = (response: ServerResponse) => {
+  response.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'Access-Control-Allow-Origin': allowedOrigin,
+  });
+  response.write(': connected\n\n');
+  changeStreams.add(response);
+  const heartbeat = setInterval(() => response.write(': ping\n\n'), 25_000);
+  response.on('close', () => {
+    clearInterval(heartbeat);
+    changeStreams.delete(response);
+  });
+};
+
+const sendJson = (response: ServerResponse, status: number, payload: unknown) => {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': allowedOrigin,
+  });
+  response.end(JSON.stringify(payload));
+};
+
+const server = createServer(async (request, response) => {
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204, {
+      'Access-Control-Allow-Origin': allowedOrigin,
+      'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    });
+    response.end();
+    return;
+  }
+
+  const url = new URL(request.url ?? '/', 'http://localhost');
+  const segments = url.pathname.split('/').filter(Boolean);
+  const bearer = request.headers.authorization?.replace(/^Bearer\s+/i, '') ?? null;
+  // EventSource cannot send headers, so only the change stream takes the token in the URL.
+  const isChangeStream = segments[0] === 'changes' && request.method === 'GET';
+  const token = bearer ?? (isChangeStream ? url.searchParams.get('access_token') : null);
+
+  try {
+    if (segments[0] === 'auth' && request.method === 'POST') {
+      sendJson(response, 200, await handleAuth(segments[1] ?? '', request, token));
+      return;
+    }
+
+    const user = userForToken(token);
+    if (!user) {
+      throw new HttpError(401, 'unauthorized', 'Sessione non valida');
+    }
+
+    if (isChangeStream) {
+      openChangeStream(response);
+      return;
+    }
+    if (segments[0] === 'rows') {
+      sendJson(response, 200, await handleRows(segments, url, request, user));
+      return;
+    }
+    throw new HttpError(404, 'not_found', 'Endpoint sconosciuto');
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendJson(response, error.status, { message: error.message, code: error.code });
+      return;
+    }
+    console.error(error);
+    sendJson(response, 500, { message: 'Errore interno', code: 'internal' });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Planest sync server su http://localhost:${port} (database: ${databasePath})`);
+});
@@ -1,7 +1,6 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Fragment, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import type { FormEvent } from 'react';
 import type { ReactNode } from 'react';
-import type { Session } from '@supabase/supabase-js';
 import {
   addDays,
   addMinutes,
@@ -14,6 +13,7 @@ import {
   format,
   isSameDay,
   isSameMonth,
+  parseISO,
   startOfDay,
   startOfMonth,
   startOfWeek,
@@ -21,10 +21,42 @@ import {
   subMonths,
   subWeeks,
 } from 'date-fns';
-import { RRule, rrulestr } from 'rrule';
+import { seriesKeyOf } from './actionRecurrence';
+import { syncAdapter } from './adapters';
+import { actionAssigneeIds, isAssignedTo } from './assignees';
+import { defaultItemIdFor } from './db';
+import { isActionFinished, openBlockersOf } from './dependencies';
+import { emptyProgress, type Progress } from './progress';
+import {
+  buildRecurrenceRule,
+  dateInputToUntil,
+  describeRecurrence,
+  emptyRecurrence,
+  frequencyUnit,
+  monthNames,
+  ordinalName,
+  parseRecurrence,
+  splitWeekday,
+  untilToDateInput,
+  type Recurrence,
+  type RecurrenceFrequency,
+} from './recurrence';
+import { isOccurrenceRemoved, occurrencesInRange, overriddenOccurrencesOf } from './occurrences';
+import { eventAssigneeAt, occurrenceForReminder } from './rotation';
+import { deviceTimeZone, eventTimeZone, isoToZonedInput, toWallClock, zonedDayIso, zonedInputToIso } from './timeZones';
+import type { AuthSession } from './adapters/types';
 import { usePlanestData } from './hooks/usePlanestData';
-import { isSupabaseEnabled, supabase } from './supabase';
-import type { UserProfile } from './types';
+import { supabase } from './supabase';
+import type {
+  ActionSubtask,
+  ConflictPolicy,
+  ConnectionState,
+  PlanAction,
+  PlanTag,
+  SyncConflict,
+  SyncTable,
+  UserProfile,
+} from './types';
 import './App.css';
 
 type AppPage = 'home' | 'calendar' | 'priorities';
@@ -37,11 +69,19 @@ type AgendaEvent = {
   description: string;
   startsAt: Date;
   endsAt: Date;
+  timeZone: string;
+  allDay: boolean;
   occurrenceDate: string;
+  lastDate: string;
   color: string;
   colorName: string | null;
   priorityId: string | null;
   mentionUserIds: string[];
+  rotationUserIds: string[];
+  assigneeUserId: string | null;
+  tagIds: string[];
+  seriesEventId: string | null;
+  recurrenceId: string | null;
   reminders: string[];
   attachmentName: string | null;
   attachmentDataUrl: string | null;
@@ -99,6 +139,102 @@ const presetColors = [
   { value: '#334155', name: 'Grigio Scuro' },
 ] as const;
 
+const actionRecurrenceOptions = [
+  { value: 'none', label: 'Non si ripete', rule: null },
+  { value: 'daily', label: 'Ogni giorno', rule: 'RRULE:FREQ=DAILY;INTERVAL=1' },
+  { value: 'weekly', label: 'Ogni settimana', rule: 'RRULE:FREQ=WEEKLY;INTERVAL=1' },
+  { value: 'monthly', label: 'Ogni mese', rule: 'RRULE:FREQ=MONTHLY;INTERVAL=1' },
+  { value: 'quarterly', label: 'Ogni 3 mesi', rule: 'RRULE:FREQ=MONTHLY;INTERVAL=3' },
+  { value: 'yearly', label: 'Ogni anno', rule: 'RRULE:FREQ=YEARLY;INTERVAL=1' },
+  { value: 'after', label: 'N giorni dopo il completamento', rule: null },
+] as const;
+
+const describeActionRecurrence = (action: PlanAction): string | null => {
+  if (action.repeatAfterDays !== null) {
+    return `${action.repeatAfterDays} giorni dopo il completamento`;
+  }
+  if (!action.recurrenceRule) {
+    return null;
+  }
+  const recurrence = parseRecurrence(action.recurrenceRule);
+  return (
+    actionRecurrenceOptions.find((option) => option.rule === action.recurrenceRule)?.label ??
+    (recurrence ? describeRecurrence(recurrence) : 'Ricorrente')
+  );
+};
+
+const syncTableLabels: Record<SyncTable, string> = {
+  tags: 'Tag',
+  categories: 'Priorita',
+  items: 'Voci',
+  actions: 'Azioni',
+  subtasks: 'Checklist',
+  events: 'Eventi',
+  profiles: 'Profili',
+};
+
+const connectionLabels: Record<ConnectionState, string> = {
+  local: 'Solo locale',
+  online: 'Online',
+  offline: 'Offline',
+  'auth-expired': 'Sessione scaduta: accedi di nuovo',
+};
+
+const formatSyncTime = (value: string | null | undefined) =>
+  value ? format(new Date(value), 'dd/MM/yyyy HH:mm:ss') : 'mai';
+
+const conflictPolicyOptions: Array<{ value: ConflictPolicy; label: string }> = [
+  { value: 'last-writer-wins', label: "Vince l'ultima modifica" },
+  { value: 'merge', label: 'Unisci i campi' },
+  { value: 'keep-both', label: 'Tieni entrambe le versioni' },
+  { value: 'manual', label: 'Chiedi ogni volta' },
+];
+
+const conflictFieldLabels: Record<string, string> = {
+  title: 'titolo',
+  description: 'descrizione',
+  owner: 'owner',
+  ownerUserId: 'owner',
+  color: 'colore',
+  colorName: 'categoria colore',
+  categoryId: 'priorita',
+  itemId: 'voce',
+  percentComplete: 'avanzamento',
+  weight: 'peso',
+  isCancelled: 'annullata',
+  progressFromSubtasks: 'avanzamento da checklist',
+  blockedByIds: 'dipendenze',
+  repeatAfterDays: 'ricorrenza',
+  seriesId: 'serie',
+  rotationUserIds: 'rotazione',
+  assigneeUserId: 'turno',
+  assigneeUserIds: 'assegnatari',
+  tagIds: 'tag',
+  name: 'nome',
+  rotationOffset: 'turno',
+  rotationSkips: 'turni saltati',
+  isDone: 'spuntata',
+  position: 'ordine',
+  dueDate: 'scadenza',
+  startsAt: 'inizio',
+  endsAt: 'fine',
+  recurrenceRule: 'ricorrenza',
+  exceptionDates: 'occorrenze eliminate',
+  seriesEventId: 'serie',
+  recurrenceId: 'occorrenza',
+  seriesGroupId: 'serie',
+  reminders: 'reminder',
+  mentionUserIds: 'utenti taggati',
+  attachmentName: 'allegato',
+  attachmentDataUrl: 'allegato',
+  displayName: 'nome',
+};
+
+const describeConflict = (conflict: SyncConflict): string => {
+  const title = conflict.local.title ?? conflict.remote.title ?? conflict.local.displayName ?? conflict.rowId;
+  return String(title);
+};
+
 const colorCategoryStorageKey = 'planest_color_categories';
 
 const buildDefaultColorCategories = (): Record<string, string> =>
@@ -133,31 +269,6 @@ const getColorOptionLabel = (value: string, colorCategories: Record<string, stri
   return category ? `${colorName} · ${category}` : colorName;
 };
 
-const parseRecurrenceRule = (
-  recurrenceRule: string | null,
-): { type: string; weekdays: string[]; untilDate: string } => {
-  if (!recurrenceRule) {
-    return { type: 'none', weekdays: [], untilDate: '' };
-  }
-  const raw = recurrenceRule.replace(/^RRULE:/, '');
-  const freq = /(?:^|;)FREQ=([^;]+)/.exec(raw)?.[1]?.toLowerCase() ?? 'none';
-  const byday = /(?:^|;)BYDAY=([^;]+)/.exec(raw)?.[1] ?? '';
-  const until = /(?:^|;)UNTIL=([^;]+)/.exec(raw)?.[1] ?? '';
-  const untilDate = until.length >= 8 ? `${until.slice(0, 4)}-${until.slice(4, 6)}-${until.slice(6, 8)}` : '';
-  return {
-    type: ['daily', 'weekly', 'monthly'].includes(freq) ? freq : 'none',
-    weekdays: byday ? byday.split(',').filter(Boolean) : [],
-    untilDate,
-  };
-};
-
-type RecurrenceConfig = {
-  type: string;
-  startsAtLocal: string;
-  untilDate: string;
-  weekdays: string[];
-};
-
 const toIsoFromDateTimeLocal = (value: string): string | null => {
   if (!value) {
     return null;
@@ -169,30 +280,10 @@ const toIsoFromDateTimeLocal = (value: string): string | null => {
   return parsed.toISOString();
 };
 
-const toDateTimeLocalValue = (date: Date): string => format(date, "yyyy-MM-dd'T'HH:mm");
-
-const toRRuleUtcDateTime = (value: string): string =>
-  new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}Z$/, 'Z');
-
-const recurrenceToRRule = ({ type, startsAtLocal, untilDate, weekdays }: RecurrenceConfig): string | null => {
-  if (type === 'none') {
-    return null;
-  }
+// Intl.supportedValuesOf is missing on older Safari; the device zone is always offered.
+const timeZoneOptions: string[] = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
 
-  let rule = `RRULE:FREQ=${type.toUpperCase()};INTERVAL=1`;
-
-  if (type === 'weekly') {
-    const fallbackDay = jsDayToRRuleDay[new Date(startsAtLocal).getDay()];
-    const selectedDays = weekdays.length > 0 ? weekdays : [fallbackDay];
-    rule = `${rule};BYDAY=${selectedDays.join(',')}`;
-  }
-
-  if (untilDate) {
-    rule = `${rule};UNTIL=${toRRuleUtcDateTime(`${untilDate}T23:59:59`)}`;
-  }
-
-  return rule;
-};
+const toDateTimeLocalValue = (date: Date): string => format(date, "yyyy-MM-dd'T'HH:mm");
 
 const getViewRange = (view: CalendarView, anchorDate: Date): { start: Date; end: Date } => {
   if (view === 'day') {
@@ -244,6 +335,31 @@ const formatReminder = (iso: string): string => format(new Date(iso), 'dd/MM/yyy
 
 const getDayIso = (date: Date): string => format(date, 'yyyy-MM-dd');
 
+// Conflicts and dead letters always carry their auto-increment key once stored.
+const isStored = <T extends { id?: number }>(entry: T): entry is T & { id: number } => entry.id !== undefined;
+
+const coversDay = (event: AgendaEvent, day: Date): boolean => {
+  const dayIso = getDayIso(day);
+  return event.occurrenceDate <= dayIso && dayIso <= event.lastDate;
+};
+
+const formatDaySpan = (first: string, last: string, pattern: string): string =>
+  first === last ? format(parseISO(first), pattern) : `${format(parseISO(first), pattern)} - ${format(parseISO(last), pattern)}`;
+
+const formatEventTime = (event: AgendaEvent, withDate = false): string => {
+  if (event.allDay) {
+    return event.occurrenceDate === event.lastDate ? 'Tutto il giorno' : formatDaySpan(event.occurrenceDate, event.lastDate, 'dd/MM');
+  }
+  if (event.occurrenceDate !== event.lastDate) {
+    return `${format(event.startsAt, 'dd/MM HH:mm')} - ${format(event.endsAt, 'dd/MM HH:mm')}`;
+  }
+  return `${format(event.startsAt, withDate ? 'dd/MM HH:mm' : 'HH:mm')} - ${format(event.endsAt, 'HH:mm')}`;
+};
+
+// The series day an occurrence belongs to, even when an edit moved it to another day.
+const originalOccurrenceDate = (event: AgendaEvent): string =>
+  zonedDayIso(event.recurrenceId ? new Date(event.recurrenceId) : event.startsAt, event.timeZone);
+
 const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
 const parseMentionUserIds = (text: string, users: UserProfile[]): string[] => {
@@ -290,6 +406,518 @@ const MentionHelper = ({
   </div>
 );
 
+// Users are added in the order they are tapped; an ordered picker shows that order.
+const UserPicker = ({
+  label,
+  users,
+  value,
+  ordered,
+  onChange,
+}: {
+  label: string;
+  users: UserProfile[];
+  value: string[];
+  ordered?: boolean;
+  onChange: (userIds: string[]) => void;
+}) => (
+  <div className="mention-helper">
+    <small>{label}</small>
+    <div className="mention-list">
+      {users.map((user) => {
+        const position = value.indexOf(user.id);
+        return (
+          <button
+            key={user.id}
+            type="button"
+            className={`mention-btn${position >= 0 ? ' is-selected' : ''}`}
+            onClick={() => onChange(position >= 0 ? value.filter((id) => id !== user.id) : [...value, user.id])}
+          >
+            {ordered && position >= 0 ? `${position + 1}. ` : ''}
+            {user.displayName}
+          </button>
+        );
+      })}
+    </div>
+  </div>
+);
+
+const TagChips = ({ tagIds, tagsById }: { tagIds: string[]; tagsById: Map<string, PlanTag> }) => (
+  <span className="tag-list">
+    {tagIds
+      .map((tagId) => tagsById.get(tagId))
+      .filter((tag): tag is PlanTag => tag !== undefined)
+      .map((tag) => (
+        <span key={tag.id} className="tag-chip" style={{ borderColor: tag.color, color: tag.color }}>
+          #{tag.name}
+        </span>
+      ))}
+  </span>
+);
+
+const TagPicker = ({ tags, value, onChange }: { tags: PlanTag[]; value: string[]; onChange: (tagIds: string[]) => void }) => (
+  <div className="mention-helper">
+    <small>Tag:</small>
+    <div className="mention-list">
+      {tags.map((tag) => {
+        const isSelected = value.includes(tag.id);
+        return (
+          <button
+            key={tag.id}
+            type="button"
+            className={`mention-btn${isSelected ? ' is-selected' : ''}`}
+            style={isSelected ? { borderColor: tag.color, color: tag.color } : undefined}
+            onClick={() => onChange(isSelected ? value.filter((id) => id !== tag.id) : [...value, tag.id])}
+          >
+            #{tag.name}
+          </button>
+        );
+      })}
+      {tags.length === 0 && <small>Nessun tag: creali nella scheda Tag del Piano Priorita.</small>}
+    </div>
+  </div>
+);
+
+const describeSeries = (recurrenceRule: string | null, start: Date, timeZone: string): string | null => {
+  const recurrence = parseRecurrence(recurrenceRule);
+  return recurrence ? describeRecurrence(recurrence, start, timeZone) : null;
+};
+
+const basicFrequencies: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+// Only the parts touched here are rewritten; the rest of a synced rule is kept as it is.
+const RecurrenceEditor = ({
+  value,
+  start,
+  timeZone,
+  onChange,
+}: {
+  value: Recurrence | null;
+  // Instant the series starts at; weekday and day of month are read in timeZone.
+  start: string | null;
+  timeZone: string;
+  onChange: (recurrence: Recurrence | null) => void;
+}) => {
+  if (!value) {
+    return (
+      <select value="none" onChange={(event) => onChange(emptyRecurrence(event.target.value as RecurrenceFrequency))}>
+        <option value="none">Nessuna ricorrenza</option>
+        <option value="DAILY">Giornaliera</option>
+        <option value="WEEKLY">Settimanale</option>
+        <option value="MONTHLY">Mensile</option>
+        <option value="YEARLY">Annuale</option>
+      </select>
+    );
+  }
+
+  const update = (patch: Partial<Recurrence>) => onChange({ ...value, ...patch });
+  const startDate = start ? new Date(start) : null;
+  const anchor = toWallClock(startDate ?? new Date(), timeZone);
+  const firstWeekday = splitWeekday(value.weekdays[0] ?? jsDayToRRuleDay[anchor.getUTCDay()]);
+  const position = value.setPositions[0] ?? firstWeekday.position ?? Math.min(4, Math.ceil(anchor.getUTCDate() / 7));
+  const endMode = value.count !== null ? 'count' : value.until ? 'until' : 'never';
+
+  return (
+    <div className="recurrence-editor">
+      <select
+        value={value.frequency}
+        onChange={(event) =>
+          onChange(
+            event.target.value === 'none'
+              ? null
+              : {
+                  ...emptyRecurrence(event.target.value as RecurrenceFrequency),
+                  interval: value.interval,
+                  count: value.count,
+                  until: value.until,
+                },
+          )
+        }
+      >
+        <option value="none">Nessuna ricorrenza</option>
+        <option value="DAILY">Giornaliera</option>
+        <option value="WEEKLY">Settimanale</option>
+        <option value="MONTHLY">Mensile</option>
+        <option value="YEARLY">Annuale</option>
+        {!basicFrequencies.includes(value.frequency) && (
+          <option value={value.frequency}>Ogni {frequencyUnit(value.frequency, 1)}</option>
+        )}
+      </select>
+
+      <label className="field-inline">
+        Ogni ({frequencyUnit(value.frequency, value.interval)})
+        <input
+          type="number"
+          min={1}
+          value={value.interval}
+          onChange={(event) => update({ interval: Math.max(1, Number(event.target.value) || 1) })}
+        />
+      </label>
+
+      {value.frequency === 'WEEKLY' && (
+        <div className="weekday-picker">
+          {weekdayOptions.map((day) => (
+            <label key={day.value} className="weekday-chip">
+              <input
+                type="checkbox"
+                checked={value.weekdays.includes(day.value)}
+                onChange={() =>
+                  update({
+                    weekdays: value.weekdays.includes(day.value)
+                      ? value.weekdays.filter((entry) => entry !== day.value)
+                      : [...value.weekdays, day.value],
+                  })
+                }
+              />
+              <span>{day.label}</span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {(value.frequency === 'MONTHLY' || value.frequency === 'YEARLY') && (
+        <div className="recurrence-row">
+          {value.frequency === 'YEARLY' && (
+            <select
+              value={value.months[0] ?? ''}
+              onChange={(event) => update({ months: event.target.value ? [Number(event.target.value)] : [] })}
+            >
+              <option value="">Mese della data di inizio</option>
+              {monthNames.map((name, idx) => (
+                <option key={name} value={idx + 1}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          )}
+          <select
+            value={value.weekdays.length > 0 ? 'weekday' : 'monthday'}
+            onChange={(event) =>
+              update(
+                event.target.value === 'weekday'
+                  ? { monthDays: [], weekdays: [firstWeekday.weekday], setPositions: [position] }
+                  : { weekdays: [], setPositions: [] },
+              )
+            }
+          >
+            <option value="monthday">Giorno del mese</option>
+            <option value="weekday">Giorno della settimana</option>
+          </select>
+          {value.weekdays.length === 0 ? (
+            <select
+              value={value.monthDays[0] ?? ''}
+              onChange={(event) => update({ monthDays: event.target.value ? [Number(event.target.value)] : [] })}
+            >
+              <option value="">Come la data di inizio</option>
+              {Array.from({ length: 31 }, (_, idx) => (
+                <option key={idx + 1} value={idx + 1}>
+                  {idx + 1}
+                </option>
+              ))}
+              <option value={-1}>Ultimo giorno</option>
+            </select>
+          ) : (
+            <>
+              <select
+                value={position}
+                onChange={(event) =>
+                  update({
+                    weekdays: value.weekdays.map((token) => splitWeekday(token).weekday),
+                    setPositions: [Number(event.target.value)],
+                  })
+                }
+              >
+                {[1, 2, 3, 4, -1].map((entry) => (
+                  <option key={entry} value={entry}>
+                    {ordinalName(entry)}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={firstWeekday.weekday}
+                onChange={(event) => update({ weekdays: [event.target.value], setPositions: [position] })}
+              >
+                {weekdayOptions.map((day) => (
+                  <option key={day.value} value={day.value}>
+                    {day.label}
+                  </option>
+                ))}
+              </select>
+            </>
+          )}
+        </div>
+      )}
+
+      <label className="field-inline">
+        Fine ricorrenza
+        <select
+          value={endMode}
+          onChange={(event) =>
+            update(
+              event.target.value === 'count'
+                ? { count: value.count ?? 10, until: null }
+                : event.target.value === 'until'
+                  ? { count: null, until: dateInputToUntil(zonedDayIso(addMonths(startDate ?? new Date(), 1), timeZone), timeZone) }
+                  : { count: null, until: null },
+            )
+          }
+        >
+          <option value="never">Mai</option>
+          <option value="until">Il giorno</option>
+          <option value="count">Dopo N occorrenze</option>
+        </select>
+      </label>
+      {endMode === 'until' && (
+        <input
+          type="date"
+          value={untilToDateInput(value.until, timeZone)}
+          min={startDate ? zonedDayIso(startDate, timeZone) : undefined}
+          onChange={(event) => event.target.value && update({ until: dateInputToUntil(event.target.value, timeZone) })}
+        />
+      )}
+      {endMode === 'count' && (
+        <input
+          type="number"
+          min={1}
+          value={value.count ?? 1}
+          onChange={(event) => update({ count: Math.max(1, Number(event.target.value) || 1) })}
+        />
+      )}
+
+      <small>{describeRecurrence(value, startDate ?? undefined, timeZone)}</small>
+    </div>
+  );
+};
+
+const TurnControls = ({
+  rotationUserIds,
+  assigneeUserId,
+  users,
+  onSkip,
+  onSwap,
+}: {
+  rotationUserIds: string[];
+  assigneeUserId: string | null;
+  users: UserProfile[];
+  onSkip: () => Promise<void> | void;
+  onSwap: (userId: string) => Promise<void> | void;
+}) => {
+  const nameOf = (userId: string | null) => users.find((user) => user.id === userId)?.displayName ?? 'utente rimosso';
+
+  return (
+    <div className="turn-controls">
+      <small>Turno: {nameOf(assigneeUserId)}</small>
+      <button type="button" className="link-btn" onClick={() => void onSkip()}>
+        Salta turno
+      </button>
+      <select
+        value=""
+        onChange={(event) => {
+          if (event.target.value) {
+            void onSwap(event.target.value);
+          }
+        }}
+      >
+        <option value="">Scambia con...</option>
+        {rotationUserIds
+          .filter((userId) => userId !== assigneeUserId)
+          .map((userId) => (
+            <option key={userId} value={userId}>
+              {nameOf(userId)}
+            </option>
+          ))}
+      </select>
+    </div>
+  );
+};
+
+const ProgressRow = ({ label, color, progress = emptyProgress }: { label: string; color?: string; progress?: Progress }) => (
+  <div className="progress-card compact">
+    <div className="progress-head">
+      <strong>{label}</strong>
+      <strong style={{ color }}>{progress.weightedProgress}%</strong>
+    </div>
+    <div className="bar">
+      <span style={{ width: `${progress.weightedProgress}%`, backgroundColor: color ?? 'var(--accent)' }} />
+    </div>
+    <small>
+      {progress.doneCount}/{progress.actionCount} azioni fatte ({progress.doneRatio}%)
+    </small>
+  </div>
+);
+
+const actionStateLabel = (action: PlanAction, isBlocked: boolean): string => {
+  if (action.isCancelled) {
+    return 'Annullata';
+  }
+  if (action.percentComplete >= 100) {
+    return 'Fatta';
+  }
+  return isBlocked ? 'Bloccata' : 'Aperta';
+};
+
+const checklistLabel = (subtasks: ActionSubtask[] = []): string =>
+  subtasks.length > 0 ? `${subtasks.filter((subtask) => subtask.isDone).length}/${subtasks.length}` : '';
+
+const SubtaskChecklist = ({
+  subtasks,
+  isBlocked,
+  progressFromSubtasks,
+  onToggleProgressFromSubtasks,
+  onAdd,
+  onUpdate,
+  onMove,
+  onDelete,
+}: {
+  subtasks: ActionSubtask[];
+  isBlocked: boolean;
+  progressFromSubtasks: boolean;
+  onToggleProgressFromSubtasks: (enabled: boolean) => Promise<void> | void;
+  onAdd: (title: string) => Promise<void> | void;
+  onUpdate: (subtaskId: string, changes: Partial<Pick<ActionSubtask, 'title' | 'isDone'>>) => Promise<void> | void;
+  onMove: (subtaskId: string, direction: -1 | 1) => Promise<void> | void;
+  onDelete: (subtaskId: string) => Promise<void> | void;
+}) => {
+  const [newTitle, setNewTitle] = useState('');
+
+  return (
+    <div className="subtask-list">
+      {subtasks.map((subtask, idx) => (
+        <div key={subtask.id} className="subtask-row">
+          <input
+            type="checkbox"
+            checked={subtask.isDone}
+            disabled={isBlocked}
+            onChange={(event) => void onUpdate(subtask.id, { isDone: event.target.checked })}
+            aria-label="Spunta"
+          />
+          <input
+            key={subtask.title}
+            defaultValue={subtask.title}
+            onBlur={(event) => {
+              const title = event.target.value.trim();
+              if (title && title !== subtask.title) {
+                void onUpdate(subtask.id, { title });
+              }
+            }}
+          />
+          <div className="mini-actions">
+            <button type="button" className="link-btn" disabled={idx === 0} onClick={() => onMove(subtask.id, -1)}>
+              ↑
+            </button>
+            <button type="button" className="link-btn" disabled={idx === subtasks.length - 1} onClick={() => onMove(subtask.id, 1)}>
+              ↓
+            </button>
+            <button type="button" className="link-btn" onClick={() => onDelete(subtask.id)}>
+              ✕
+            </button>
+          </div>
+        </div>
+      ))}
+      <form
+        className="subtask-row"
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (!newTitle.trim()) {
+            return;
+          }
+          void onAdd(newTitle.trim());
+          setNewTitle('');
+        }}
+      >
+        <span />
+        <input value={newTitle} onChange={(event) => setNewTitle(event.target.value)} placeholder="Nuovo elemento checklist" />
+        <button type="submit">Aggiungi</button>
+      </form>
+      <label className="toggle-line">
+        <input
+          type="checkbox"
+          checked={progressFromSubtasks}
+          onChange={(event) => void onToggleProgressFromSubtasks(event.target.checked)}
+        />
+        Avanzamento calcolato dalla checklist
+      </label>
+    </div>
+  );
+};
+
+const BlockerEditor = ({
+  action,
+  candidates,
+  onChange,
+}: {
+  action: PlanAction;
+  candidates: Array<{ id: string; label: string }>;
+  onChange: (blockedByIds: string[]) => Promise<void> | void;
+}) => {
+  const labels = new Map(candidates.map((candidate) => [candidate.id, candidate.label]));
+
+  return (
+    <div className="subtask-list">
+      <div className="reminder-list">
+        {action.blockedByIds.length === 0 && <small>Nessuna dipendenza.</small>}
+        {action.blockedByIds.map((blockerId) => (
+          <span key={blockerId} className="reminder-chip">
+            {labels.get(blockerId) ?? 'Azione eliminata'}
+            <button type="button" onClick={() => onChange(action.blockedByIds.filter((id) => id !== blockerId))}>
+              x
+            </button>
+          </span>
+        ))}
+      </div>
+      <select
+        value=""
+        onChange={(event) => {
+          if (event.target.value) {
+            void onChange([...action.blockedByIds, event.target.value]);
+          }
+        }}
+      >
+        <option value="">Bloccata da...</option>
+        {candidates
+          .filter((candidate) => candidate.id !== action.id && !action.blockedByIds.includes(candidate.id))
+          .map((candidate) => (
+            <option key={candidate.id} value={candidate.id}>
+              {candidate.label}
+            </option>
+          ))}
+      </select>
+    </div>
+  );
+};
+
+// The value is only saved when the thumb is released, not on every step of the drag.
+const ProgressSlider = ({
+  value,
+  disabled,
+  onCommit,
+}: {
+  value: number;
+  disabled?: boolean;
+  onCommit: (value: number) => Promise<void> | void;
+}) => {
+  const [draft, setDraft] = useState(value);
+  const commit = () => {
+    if (draft !== value) {
+      void onCommit(draft);
+    }
+  };
+
+  return (
+    <input
+      type="range"
+      min="0"
+      max="100"
+      step="5"
+      value={draft}
+      disabled={disabled}
+      onChange={(event) => setDraft(Number(event.target.value))}
+      onPointerUp={commit}
+      onKeyUp={commit}
+      aria-label="Avanzamento azione"
+    />
+  );
+};
+
 const SwipeActionRow = ({
   onEdit,
   onDelete,
@@ -463,15 +1091,45 @@ const ReminderEditor = ({
 function App() {
   const {
     profiles,
+    tags,
     categories,
+    items,
     actions,
+    subtasks,
     events,
+    itemProgressMap,
     categoryProgressMap,
+    ownerProgressMap,
+    progressOptions,
+    blockedActionIds,
+    historyActionIds,
+    conflicts,
+    conflictPolicies,
+    deadLetters,
     isSyncing,
     lastSyncAt,
+    syncStatus,
     addCategory,
+    addTag,
+    renameTag,
+    deleteTag,
+    addItem,
+    updateItemTitle,
+    deleteItem,
     addAction,
     updateActionProgress,
+    updateActionWeight,
+    setActionCancelled,
+    setActionBlockers,
+    setActionAssignees,
+    setActionTags,
+    skipActionTurn,
+    swapActionTurn,
+    setProgressFromSubtasks,
+    addSubtask,
+    updateSubtask,
+    moveSubtask,
+    deleteSubtask,
     updatePriorityMeta,
     updateActionTitle,
     deletePriority,
@@ -481,8 +1139,19 @@ function App() {
     deleteEventSeries,
     deleteEventOccurrence,
     trimEventSeries,
+    saveEventOccurrence,
+    splitEventSeries,
+    skipEventTurn,
+    swapEventTurn,
+    setProgressOptions,
+    setConflictPolicy,
+    resolveConflict,
+    retryDeadLetter,
+    discardDeadLetter,
     syncNow,
-    usesSupabase,
+    forceFullSync,
+    isLeader,
+    usesSync,
   } = usePlanestData();
 
   const handleDeletePriority = async (categoryId: string) => {
@@ -515,10 +1184,49 @@ function App() {
     }
   };
 
+  const handleMarkItemDone = async (itemId: string) => {
+    const pendingActions = actions.filter((action) => action.itemId === itemId && action.percentComplete < 100);
+    for (const action of pendingActions) {
+      await updateActionProgress(action.id, 100);
+    }
+  };
+
+  const handleReopenItem = async (itemId: string) => {
+    const doneActions = actions.filter((action) => action.itemId === itemId && action.percentComplete >= 100);
+    for (const action of doneActions) {
+      await updateActionProgress(action.id, 0);
+    }
+  };
+
+  const handleChangeBlockers = async (actionId: string, blockedByIds: string[]) => {
+    const { error } = await setActionBlockers(actionId, blockedByIds);
+    if (error) {
+      window.alert(error);
+    }
+  };
+
+  const handleEditActionWeight = async (actionId: string, currentWeight: number) => {
+    const next = window.prompt('Peso azione (impegno stimato)', String(currentWeight));
+    const weight = Number(next?.replace(',', '.'));
+    if (!next || !Number.isFinite(weight) || weight <= 0) {
+      return;
+    }
+    await updateActionWeight(actionId, weight);
+  };
+
+  const handleEditItem = async (itemId: string, currentTitle: string) => {
+    const next = window.prompt('Modifica titolo voce', currentTitle);
+    if (!next || !next.trim()) {
+      return;
+    }
+    await updateItemTitle(itemId, next.trim());
+  };
+
   const handleStartEditPriority = (categoryId: string, currentTitle: string, currentColor: string) => {
     setEditingPriorityId(categoryId);
     setEditingPriorityTitle(currentTitle);
     setEditingPriorityColor(currentColor);
+    setEditingPriorityTagIds(categoryMap.get(categoryId)?.tagIds ?? []);
   };
 
   const handleSaveEditPriority = async () => {
@@ -530,6 +1238,7 @@ function App() {
       editingPriorityTitle.trim(),
       editingPriorityColor,
       colorCategories[editingPriorityColor] || null,
+      editingPriorityTagIds,
     );
     setEditingPriorityId(null);
     setEditingPriorityTitle('');
@@ -548,7 +1257,7 @@ function App() {
     await updateActionTitle(actionId, next.trim());
   };
 
-  const [session, setSession] = useState<Session | null>(null);
+  const [session, setSession] = useState<AuthSession | null>(null);
   const [authEmail, setAuthEmail] = useState('');
   const [authPassword, setAuthPassword] = useState('');
   const [authDisplayName, setAuthDisplayName] = useState('');
@@ -565,18 +1274,54 @@ function App() {
   const [page, setPage] = useState<AppPage>('home');
   const [filterPriority, setFilterPriority] = useState('all');
   const [filterUserId, setFilterUserId] = useState('all');
-  const [priorityActionStatusFilter, setPriorityActionStatusFilter] = useState<'all' | 'open' | 'done'>('all');
+  const [filterTagId, setFilterTagId] = useState('all');
+  const [priorityActionStatusFilter, setPriorityActionStatusFilter] = useState<'all' | 'open' | 'blocked' | 'done'>('all');
   const [expandedPriorityId, setExpandedPriorityId] = useState<string | null>(null);
+  const [expandedChecklistActionId, setExpandedChecklistActionId] = useState<string | null>(null);
+  const [expandedBlockersActionId, setExpandedBlockersActionId] = useState<string | null>(null);
+  const [expandedAssigneesActionId, setExpandedAssigneesActionId] = useState<string | null>(null);
+  const [expandedTagsActionId, setExpandedTagsActionId] = useState<string | null>(null);
+  const subtasksByAction = useMemo(() => {
+    const map = new Map<string, ActionSubtask[]>();
+    for (const subtask of [...subtasks].sort((left, right) => left.position - right.position)) {
+      map.set(subtask.actionId, [...(map.get(subtask.actionId) ?? []), subtask]);
+    }
+    return map;
+  }, [subtasks]);
+  const actionsById = useMemo(() => new Map(actions.map((action) => [action.id, action])), [actions]);
+  const eventsById = useMemo(() => new Map(events.map((event) => [event.id, event])), [events]);
+
+  // Start of every series occurrence that an edited copy replaces, per series.
+  const overriddenOccurrences = useMemo(() => overriddenOccurrencesOf(events), [events]);
+  const blockerCandidates = useMemo(() => {
+    const categoryTitles = new Map(categories.map((category) => [category.id, category.title]));
+    return actions
+      .map((action) => ({ id: action.id, label: `${categoryTitles.get(action.categoryId) ?? '?'} · ${action.title}` }))
+      .sort((left, right) => left.label.localeCompare(right.label));
+  }, [actions, categories]);
 
   const [priorityTitle, setPriorityTitle] = useState('');
   const [priorityOwnerUserId, setPriorityOwnerUserId] = useState('');
   const [priorityColor, setPriorityColor] = useState<string>(presetColors[0].value);
+  const [priorityTagIds, setPriorityTagIds] = useState<string[]>([]);
   const [colorCategories, setColorCategories] = useState<Record<string, string>>(() => loadColorCategories());
   const [editingPriorityId, setEditingPriorityId] = useState<string | null>(null);
   const [editingPriorityTitle, setEditingPriorityTitle] = useState('');
   const [editingPriorityColor, setEditingPriorityColor] = useState<string>(presetColors[0].value);
+  const [editingPriorityTagIds, setEditingPriorityTagIds] = useState<string[]>([]);
+  const [tagName, setTagName] = useState('');
+  const [tagColor, setTagColor] = useState<string>(presetColors[0].value);
 
+  const [itemPriorityId, setItemPriorityId] = useState('');
+  const [itemTitle, setItemTitle] = useState('');
   const [actionPriorityId, setActionPriorityId] = useState('');
+  const [actionItemId, setActionItemId] = useState('');
+  const [actionWeight, setActionWeight] = useState('1');
+  const [actionRecurrence, setActionRecurrence] = useState<(typeof actionRecurrenceOptions)[number]['value']>('none');
+  const [actionRepeatAfterDays, setActionRepeatAfterDays] = useState('30');
+  const [actionRotationUserIds, setActionRotationUserIds] = useState<string[]>([]);
+  const [actionAssigneeUserIds, setActionAssigneeUserIds] = useState<string[]>([]);
+  const [actionTagIds, setActionTagIds] = useState<string[]>([]);
   const [actionTitle, setActionTitle] = useState('');
   const [actionDueDate, setActionDueDate] = useState('');
   const [actionReminderInput, setActionReminderInput] = useState('');
@@ -587,15 +1332,19 @@ function App() {
   const [eventPriorityId, setEventPriorityId] = useState('');
   const [eventStartsAt, setEventStartsAt] = useState('');
   const [eventEndsAt, setEventEndsAt] = useState('');
-  const [eventRecurrence, setEventRecurrence] = useState('none');
-  const [eventRecurrenceUntil, setEventRecurrenceUntil] = useState('');
-  const [eventRecurrenceWeekdays, setEventRecurrenceWeekdays] = useState<string[]>([]);
+  const [eventZone, setEventZone] = useState(deviceTimeZone);
+  const [eventAllDay, setEventAllDay] = useState(false);
+  const [eventRecurrence, setEventRecurrence] = useState<Recurrence | null>(null);
+  const [eventRotationUserIds, setEventRotationUserIds] = useState<string[]>([]);
+  const [eventTagIds, setEventTagIds] = useState<string[]>([]);
   const [eventReminderPreset, setEventReminderPreset] = useState<'30m' | '15m' | '5m' | '1d' | 'custom'>('30m');
   const [eventReminderCustomAt, setEventReminderCustomAt] = useState('');
   const [eventReminderList, setEventReminderList] = useState<string[]>([]);
   const [eventColor, setEventColor] = useState<string>(presetColors[0].value);
   const [eventFile, setEventFile] = useState<File | null>(null);
   const [editingEventId, setEditingEventId] = useState<string | null>(null);
+  const [editingOccurrenceId, setEditingOccurrenceId] = useState<string | null>(null);
+  const [editingFollowingFrom, setEditingFollowingFrom] = useState<string | null>(null);
   const [eventFeedback, setEventFeedback] = useState<string | null>(null);
   const [expandedDayEventId, setExpandedDayEventId] = useState<string | null>(null);
 
@@ -604,6 +1353,7 @@ function App() {
   const [selectedCalendarDate, setSelectedCalendarDate] = useState(new Date());
   const [calendarKeyword, setCalendarKeyword] = useState('');
   const [showItalianHolidays, setShowItalianHolidays] = useState(true);
+  const [notifyUnblocked, setNotifyUnblocked] = useState(() => localStorage.getItem('planest_notify_unblocked') !== '0');
   const [holidayEventsByYear, setHolidayEventsByYear] = useState<Record<number, AgendaEvent[]>>({});
   const loadingHolidayYearsRef = useRef<Set<number>>(new Set());
 
@@ -644,27 +1394,23 @@ function App() {
   }, [themeMode]);
 
   useEffect(() => {
-    if (!isSupabaseEnabled || !supabase) {
+    if (!syncAdapter) {
       return;
     }
 
-    void supabase.auth.getSession().then(({ data }) => {
-      setSession(data.session);
-      if (data.session) {
+    void syncAdapter.auth.getSession().then((currentSession) => {
+      setSession(currentSession);
+      if (currentSession) {
         void syncNow();
       }
     });
 
-    const { data: subscription } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+    return syncAdapter.auth.onSessionChange((nextSession) => {
       setSession(nextSession);
       if (nextSession) {
         void syncNow();
       }
     });
-
-    return () => {
-      subscription.subscription.unsubscribe();
-    };
   }, [syncNow]);
 
   useEffect(() => {
@@ -765,20 +1511,34 @@ function App() {
     [categoryMap, filterUserId],
   );
 
+  const tagsById = useMemo(() => new Map(tags.map((tag) => [tag.id, tag])), [tags]);
+
+  // A tag on a priority also covers the actions and events filed under it.
+  const matchesTagFilter = useCallback(
+    (tagIds: string[], categoryId: string | null) =>
+      filterTagId === 'all' ||
+      tagIds.includes(filterTagId) ||
+      (categoryId !== null && (categoryMap.get(categoryId)?.tagIds.includes(filterTagId) ?? false)),
+    [categoryMap, filterTagId],
+  );
+
   const filteredActions = useMemo(() => {
     return actions.filter((action) => {
       if (filterPriority !== 'all' && action.categoryId !== filterPriority) {
         return false;
       }
-      if (filterUserId === 'all') {
-        return true;
+      if (!matchesTagFilter(action.tagIds, action.categoryId)) {
+        return false;
       }
-      if (action.mentionUserIds.includes(filterUserId)) {
+      if (filterUserId === 'all') {
         return true;
       }
-      return isCategoryRelevantToUser(action.categoryId);
+      // Unassigned actions stay with the owner of their priority.
+      return actionAssigneeIds(action).length > 0
+        ? isAssignedTo(action, filterUserId)
+        : isCategoryRelevantToUser(action.categoryId);
     });
-  }, [actions, filterPriority, filterUserId, isCategoryRelevantToUser]);
+  }, [actions, filterPriority, filterUserId, isCategoryRelevantToUser, matchesTagFilter]);
 
   const priorityPageActions = useMemo(() => {
     if (priorityActionStatusFilter === 'done') {
@@ -787,23 +1547,54 @@ function App() {
     if (priorityActionStatusFilter === 'open') {
       return filteredActions.filter((action) => action.percentComplete < 100);
     }
-    return filteredActions;
-  }, [filteredActions, priorityActionStatusFilter]);
+    if (priorityActionStatusFilter === 'blocked') {
+      return filteredActions.filter((action) => blockedActionIds.has(action.id));
+    }
+    // Completed instances of recurring actions only show up among the done ones.
+    return filteredActions.filter((action) => !historyActionIds.has(action.id));
+  }, [blockedActionIds, filteredActions, historyActionIds, priorityActionStatusFilter]);
+
+  const myActions = useMemo(() => {
+    const currentUserId = session?.user.id;
+    if (!currentUserId) {
+      return [];
+    }
+    return actions
+      .filter((action) => isAssignedTo(action, currentUserId) && !isActionFinished(action))
+      .sort((a, b) => (a.dueDate ?? '9999').localeCompare(b.dueDate ?? '9999'));
+  }, [actions, session?.user.id]);
+
+  const completedBySeries = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const action of actions) {
+      if (historyActionIds.has(action.id)) {
+        counts.set(seriesKeyOf(action), (counts.get(seriesKeyOf(action)) ?? 0) + 1);
+      }
+    }
+    return counts;
+  }, [actions, historyActionIds]);
 
   const visiblePriorities = useMemo(() => {
     return categories.filter((priority) => {
       if (filterPriority !== 'all' && priority.id !== filterPriority) {
         return false;
       }
+      if (
+        filterTagId !== 'all' &&
+        !priority.tagIds.includes(filterTagId) &&
+        !actions.some((action) => action.categoryId === priority.id && action.tagIds.includes(filterTagId))
+      ) {
+        return false;
+      }
       if (filterUserId !== 'all' && priority.ownerUserId !== filterUserId) {
         const hasRelatedAction = actions.some(
-          (action) => action.categoryId === priority.id && action.mentionUserIds.includes(filterUserId),
+          (action) => action.categoryId === priority.id && isAssignedTo(action, filterUserId),
         );
         return hasRelatedAction;
       }
       return true;
     });
-  }, [actions, categories, filterPriority, filterUserId]);
+  }, [actions, categories, filterPriority, filterTagId, filterUserId]);
 
   const monthGridDays = useMemo(() => {
     const gridStart = startOfWeek(startOfMonth(calendarDate), { weekStartsOn: 1 });
@@ -851,11 +1642,19 @@ function App() {
               description: '',
               startsAt: start,
               endsAt: new Date(`${holiday.date}T23:59:59`),
+              timeZone: deviceTimeZone(),
+              allDay: true,
               occurrenceDate: holiday.date,
+              lastDate: holiday.date,
               color: holidayColor,
               colorName: 'Festivita',
               priorityId: null,
               mentionUserIds: [],
+              rotationUserIds: [],
+              assigneeUserId: null,
+              tagIds: [],
+              seriesEventId: null,
+              recurrenceId: null,
               reminders: [],
               attachmentName: null,
               attachmentDataUrl: null,
@@ -881,6 +1680,9 @@ function App() {
       if (filterPriority !== 'all' && event.categoryId !== filterPriority) {
         return [];
       }
+      if (!matchesTagFilter(event.tagIds, event.categoryId)) {
+        return [];
+      }
 
       if (filterUserId !== 'all') {
         const categoryRelevant = event.categoryId ? isCategoryRelevantToUser(event.categoryId) : false;
@@ -890,67 +1692,72 @@ function App() {
         }
       }
 
-      const sourceStart = new Date(event.startsAt);
-      const sourceEnd = new Date(event.endsAt);
-      const durationMs = Math.max(0, sourceEnd.getTime() - sourceStart.getTime());
+      const occurrences = occurrencesInRange(event, range, overriddenOccurrences.get(event.id));
+      const timeZone = eventTimeZone(event);
 
       if (!event.recurrenceRule) {
-        if (sourceStart >= range.start && sourceStart <= range.end) {
-          const occurrenceDate = getDayIso(sourceStart);
-          if ((event.exceptionDates ?? []).includes(occurrenceDate)) {
-            return [];
-          }
-          return [
-            {
-              id: event.id,
-              baseEventId: event.id,
-              title: event.title,
-              description: event.description,
-              startsAt: sourceStart,
-              endsAt: sourceEnd,
-              occurrenceDate,
-              color: event.color,
-              colorName: event.colorName,
-              priorityId: event.categoryId,
-              mentionUserIds: event.mentionUserIds,
-              reminders: event.reminders ?? [],
-              attachmentName: event.attachmentName,
-              attachmentDataUrl: event.attachmentDataUrl,
-              source: 'planest' as const,
-              isRecurring: false,
-            },
-          ];
-        }
-        return [];
-      }
-
-      const rule = rrulestr(event.recurrenceRule.replace('RRULE:', ''), { dtstart: sourceStart }) as RRule;
-      const exceptionSet = new Set(event.exceptionDates ?? []);
-
-      return rule
-        .between(range.start, range.end, true)
-        .filter((occurrence) => !exceptionSet.has(getDayIso(occurrence)))
-        .map((occurrence, idx) => ({
-          id: `${event.id}-${idx}-${occurrence.toISOString()}`,
+        // An edited occurrence keeps the turn of the occurrence it replaces.
+        const series = event.seriesEventId ? eventsById.get(event.seriesEventId) : undefined;
+        return occurrences.map((occurrence) => ({
+          id: event.id,
           baseEventId: event.id,
           title: event.title,
           description: event.description,
-          startsAt: occurrence,
-          endsAt: new Date(occurrence.getTime() + durationMs),
-          occurrenceDate: getDayIso(occurrence),
+          startsAt: occurrence.startsAt,
+          endsAt: occurrence.endsAt,
+          timeZone,
+          allDay: event.allDay,
+          occurrenceDate: occurrence.first,
+          lastDate: occurrence.last,
           color: event.color,
           colorName: event.colorName,
           priorityId: event.categoryId,
           mentionUserIds: event.mentionUserIds,
+          rotationUserIds: series?.rotationUserIds ?? event.rotationUserIds,
+          assigneeUserId:
+            series && event.recurrenceId
+              ? eventAssigneeAt(series, new Date(event.recurrenceId))
+              : eventAssigneeAt(event, occurrence.startsAt),
+          tagIds: event.tagIds,
+          seriesEventId: event.seriesEventId,
+          recurrenceId: event.recurrenceId,
           reminders: event.reminders ?? [],
           attachmentName: event.attachmentName,
           attachmentDataUrl: event.attachmentDataUrl,
           source: 'planest' as const,
-          isRecurring: true,
+          isRecurring: event.seriesEventId !== null,
         }));
+      }
+
+      return occurrences.map((occurrence, idx) => ({
+        id: `${event.id}-${idx}-${occurrence.startsAt.toISOString()}`,
+        baseEventId: event.id,
+        title: event.title,
+        description: event.description,
+        startsAt: occurrence.startsAt,
+        endsAt: occurrence.endsAt,
+        timeZone,
+        allDay: event.allDay,
+        occurrenceDate: occurrence.first,
+        lastDate: occurrence.last,
+        color: event.color,
+        colorName: event.colorName,
+        priorityId: event.categoryId,
+        mentionUserIds: event.mentionUserIds,
+        rotationUserIds: event.rotationUserIds,
+        assigneeUserId: eventAssigneeAt(event, occurrence.startsAt),
+        tagIds: event.tagIds,
+        seriesEventId: null,
+        recurrenceId: null,
+        reminders: event.reminders ?? [],
+        attachmentName: event.attachmentName,
+        attachmentDataUrl: event.attachmentDataUrl,
+        source: 'planest' as const,
+        isRecurring: true,
+      }));
     });
 
-    const holidayEvents = showItalianHolidays
+    const holidayEvents = showItalianHolidays && filterTagId === 'all'
       ? Object.values(holidayEventsByYear)
           .flat()
           .filter((event) => event.startsAt >= range.start && event.startsAt <= range.end)
@@ -964,15 +1771,19 @@ function App() {
     calendarKeyword,
     calendarView,
     events,
+    eventsById,
     filterPriority,
+    filterTagId,
     filterUserId,
     holidayEventsByYear,
     isCategoryRelevantToUser,
+    matchesTagFilter,
+    overriddenOccurrences,
     showItalianHolidays,
   ]);
 
   const selectedDayEvents = useMemo(
-    () => visibleCalendarEvents.filter((event) => isSameDay(event.startsAt, selectedCalendarDate)),
+    () => visibleCalendarEvents.filter((event) => coversDay(event, selectedCalendarDate)),
     [selectedCalendarDate, visibleCalendarEvents],
   );
 
@@ -991,6 +1802,9 @@ function App() {
       if (filterPriority !== 'all' && event.categoryId !== filterPriority) {
         continue;
       }
+      if (!matchesTagFilter(event.tagIds, event.categoryId)) {
+        continue;
+      }
       if (filterUserId !== 'all') {
         const categoryRelevant = event.categoryId ? isCategoryRelevantToUser(event.categoryId) : false;
         const mentionRelevant = event.mentionUserIds.includes(filterUserId);
@@ -999,46 +1813,42 @@ function App() {
         }
       }
 
-      const sourceStart = new Date(event.startsAt);
-      if (!event.recurrenceRule) {
-        if (sourceStart >= weekRange.start && sourceStart <= weekRange.end) {
-          rows.push({ id: event.id, title: event.title, day: format(sourceStart, 'EEE dd'), startsAt: sourceStart });
-        }
-        continue;
-      }
-
-      const rule = rrulestr(event.recurrenceRule.replace('RRULE:', ''), { dtstart: sourceStart }) as RRule;
-      const exceptionSet = new Set(event.exceptionDates ?? []);
-      const occurrences = rule
-        .between(weekRange.start, weekRange.end, true)
-        .filter((occurrence) => !exceptionSet.has(getDayIso(occurrence)));
-      for (const occurrence of occurrences) {
+      for (const occurrence of occurrencesInRange(event, weekRange, overriddenOccurrences.get(event.id))) {
         rows.push({
-          id: `${event.id}-${occurrence.toISOString()}`,
+          id: event.recurrenceRule ? `${event.id}-${occurrence.startsAt.toISOString()}` : event.id,
           title: event.title,
-          day: format(occurrence, 'EEE dd'),
-          startsAt: occurrence,
+          day: formatDaySpan(occurrence.first, occurrence.last, 'EEE dd'),
+          startsAt: occurrence.startsAt,
         });
       }
     }
 
     return rows.sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
-  }, [events, filterPriority, filterUserId, isCategoryRelevantToUser]);
+  }, [events, filterPriority, filterUserId, isCategoryRelevantToUser, matchesTagFilter, overriddenOccurrences]);
 
   useEffect(() => {
-    if (typeof window === 'undefined') {
+    if (typeof window === 'undefined' || !isLeader) {
       return;
     }
 
     const sentKey = 'planest_sent_reminders';
+    const currentUserId = session?.user.id ?? null;
     const canNotify = notificationPermission === 'granted' && 'Notification' in window;
 
     const checkReminders = () => {
       const sentRaw = localStorage.getItem(sentKey);
       const sent = new Set<string>(sentRaw ? JSON.parse(sentRaw) : []);
       const now = new Date();
+      // With a rotation only the member whose turn it is gets reminded.
+      const isSomeoneElsesTurn = (rotationUserIds: string[], assigneeUserId: string | null) =>
+        Boolean(currentUserId) && rotationUserIds.length > 0 && assigneeUserId !== currentUserId;
       for (const action of filteredActions) {
-        if (action.percentComplete >= 100) {
+        // Blocked actions cannot be started yet, so their reminders wait until they unblock.
+        if (
+          isActionFinished(action) ||
+          blockedActionIds.has(action.id) ||
+          isSomeoneElsesTurn(action.rotationUserIds, action.assigneeUserId)
+        ) {
           continue;
         }
         for (const reminder of action.reminders) {
@@ -1057,9 +1867,23 @@ function App() {
       }
 
       for (const event of events) {
+        const series = event.seriesEventId ? eventsById.get(event.seriesEventId) : event;
         for (const reminder of event.reminders) {
           const reminderDate = new Date(reminder);
           const token = `event:${event.id}:${reminderDate.toISOString()}`;
+          const occurrence =
+            event.seriesEventId && event.recurrenceId ? new Date(event.recurrenceId) : occurrenceForReminder(event, reminderDate);
+          // A series reminder whose occurrence was edited or deleted gives way to the edited copy.
+          if (
+            !event.seriesEventId &&
+            occurrence &&
+            isOccurrenceRemoved(event, occurrence, overriddenOccurrences.get(event.id))
+          ) {
+            continue;
+          }
+          if (series && occurrence && isSomeoneElsesTurn(series.rotationUserIds, eventAssigneeAt(series, occurrence))) {
+            continue;
+          }
           if (canNotify && reminderDate <= now && !sent.has(token)) {
             const notification = new Notification('Planest Reminder', { body: `Evento: ${event.title}` });
             notification.onclick = () => {
@@ -1077,10 +1901,59 @@ function App() {
     checkReminders();
     const timerId = window.setInterval(checkReminders, 30_000);
     return () => window.clearInterval(timerId);
-  }, [events, filteredActions, navigateToCalendarFromNotification, notificationPermission]);
+  }, [
+    blockedActionIds,
+    events,
+    eventsById,
+    filteredActions,
+    isLeader,
+    navigateToCalendarFromNotification,
+    notificationPermission,
+    overriddenOccurrences,
+    session?.user.id,
+  ]);
 
   useEffect(() => {
-    if (typeof window === 'undefined' || !session?.user.id) {
+    if (typeof window === 'undefined' || !isLeader || !session?.user.id) {
+      return;
+    }
+
+    const currentUserId = session.user.id;
+    const sentKey = `planest_unblock_notifications_${currentUserId}`;
+    const sentRaw = localStorage.getItem(sentKey);
+    const sent = new Set<string>(sentRaw ? JSON.parse(sentRaw) : []);
+    // The first run only records what is already unblocked, like the mention seeding.
+    const canNotify = sentRaw !== null && notifyUnblocked && notificationPermission === 'granted' && 'Notification' in window;
+
+    for (const action of actions) {
+      if (
+        action.blockedByIds.length === 0 ||
+        blockedActionIds.has(action.id) ||
+        isActionFinished(action) ||
+        !(isAssignedTo(action, currentUserId) || action.mentionUserIds.includes(currentUserId))
+      ) {
+        continue;
+      }
+      const blockers = action.blockedByIds
+        .map((blockerId) => actionsById.get(blockerId))
+        .filter((blocker): blocker is PlanAction => blocker !== undefined);
+      if (blockers.length === 0) {
+        continue;
+      }
+      const token = `${action.id}:${blockers.map((blocker) => blocker.updatedAt).sort().at(-1)}`;
+      if (!sent.has(token)) {
+        if (canNotify) {
+          new Notification('Azione sbloccata', { body: `Puoi iniziare: ${action.title}` });
+        }
+        sent.add(token);
+      }
+    }
+
+    localStorage.setItem(sentKey, JSON.stringify(Array.from(sent)));
+  }, [actions, actionsById, blockedActionIds, isLeader, notificationPermission, notifyUnblocked, session?.user.id]);
+
+  useEffect(() => {
+    if (typeof window === 'undefined' || !isLeader || !session?.user.id) {
       return;
     }
 
@@ -1135,10 +2008,10 @@ function App() {
     }
 
     localStorage.setItem(sentKey, JSON.stringify(Array.from(sent)));
-  }, [actions, events, notificationPermission, session?.user.id]);
+  }, [actions, events, isLeader, notificationPermission, session?.user.id]);
 
   const ensurePushSubscription = useCallback(async () => {
-    if (!supabase || !session?.user.id) {
+    if (!supabase || syncAdapter?.kind !== 'supabase' || !session?.user.id) {
       return;
     }
     if (!('serviceWorker' in navigator) || !('PushManager' in window)) {
@@ -1209,7 +2082,7 @@ function App() {
 
   const handleAuthSubmit = async (event: FormEvent) => {
     event.preventDefault();
-    if (!supabase) {
+    if (!syncAdapter) {
       return;
     }
 
@@ -1217,20 +2090,18 @@ function App() {
     setAuthError(null);
     try {
       if (authMode === 'signup') {
-        const { error } = await supabase.auth.signUp({
-          email: authEmail,
-          password: authPassword,
-          options: {
-            data: { display_name: authDisplayName || authEmail.split('@')[0] },
-          },
-        });
+        const { error } = await syncAdapter.auth.signUp(
+          authEmail,
+          authPassword,
+          authDisplayName || authEmail.split('@')[0],
+        );
         if (error) {
-          throw error;
+          throw new Error(error);
         }
       } else {
-        const { error } = await supabase.auth.signInWithPassword({ email: authEmail, password: authPassword });
+        const { error } = await syncAdapter.auth.signIn(authEmail, authPassword);
         if (error) {
-          throw error;
+          throw new Error(error);
         }
       }
     } catch (error) {
@@ -1241,10 +2112,10 @@ function App() {
   };
 
   const signOut = async () => {
-    if (!supabase) {
+    if (!syncAdapter) {
       return;
     }
-    await supabase.auth.signOut();
+    await syncAdapter.auth.signOut();
   };
 
   const selectCalendarDay = (date: Date) => {
@@ -1282,9 +2153,48 @@ function App() {
       ownerUser.id,
       priorityColor,
       colorCategories[priorityColor] || null,
+      priorityTagIds,
     );
 
     setPriorityTitle('');
+    setPriorityTagIds([]);
+  };
+
+  const handleCreateTag = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!tagName.trim()) {
+      return;
+    }
+    await addTag(tagName.trim(), tagColor);
+    setTagName('');
+  };
+
+  const handleRenameTag = async (tag: PlanTag) => {
+    const next = window.prompt('Modifica nome tag', tag.name);
+    if (!next || !next.trim()) {
+      return;
+    }
+    await renameTag(tag.id, next.trim());
+  };
+
+  const handleDeleteTag = async (tag: PlanTag) => {
+    if (!window.confirm(`Eliminare il tag "${tag.name}"? Verra tolto da priorita, azioni ed eventi.`)) {
+      return;
+    }
+    if (filterTagId === tag.id) {
+      setFilterTagId('all');
+    }
+    await deleteTag(tag.id);
+  };
+
+  const handleCreateItem = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!itemPriorityId || !itemTitle.trim()) {
+      return;
+    }
+
+    await addItem(itemPriorityId, itemTitle.trim());
+    setItemTitle('');
   };
 
   const addActionReminder = () => {
@@ -1307,20 +2217,39 @@ function App() {
     }
 
     const mentionUserIds = parseMentionUserIds(actionTitle, effectiveUsers);
-    await addAction(actionPriorityId, actionTitle.trim(), toIsoFromDateTimeLocal(actionDueDate), actionReminderList, mentionUserIds);
+    const repeatAfterDays = Math.round(Number(actionRepeatAfterDays));
+    await addAction({
+      categoryId: actionPriorityId,
+      itemId: actionItemId || null,
+      title: actionTitle.trim(),
+      dueDate: toIsoFromDateTimeLocal(actionDueDate),
+      reminders: actionReminderList,
+      mentionUserIds,
+      weight: Number(actionWeight) > 0 ? Number(actionWeight) : 1,
+      recurrenceRule: actionRecurrenceOptions.find((option) => option.value === actionRecurrence)?.rule ?? null,
+      repeatAfterDays: actionRecurrence === 'after' && repeatAfterDays > 0 ? repeatAfterDays : null,
+      rotationUserIds: actionRecurrence === 'none' ? [] : actionRotationUserIds,
+      assigneeUserIds: actionAssigneeUserIds,
+      tagIds: actionTagIds,
+    });
 
     setActionTitle('');
     setActionDueDate('');
+    setActionWeight('1');
+    setActionRecurrence('none');
+    setActionRotationUserIds([]);
+    setActionAssigneeUserIds([]);
+    setActionTagIds([]);
     setActionReminderInput('');
     setActionReminderList([]);
   };
 
   const addEventReminder = () => {
     let iso: string | null = null;
-    const eventStartDate = toIsoFromDateTimeLocal(eventStartsAt);
+    const eventStartDate = zonedInputToIso(eventStartsAt, eventZone);
     const start = eventStartDate ? new Date(eventStartDate) : null;
     if (eventReminderPreset === 'custom') {
-      iso = toIsoFromDateTimeLocal(eventReminderCustomAt);
+      iso = zonedInputToIso(eventReminderCustomAt, eventZone);
     } else if (start) {
       if (eventReminderPreset === '30m') {
         iso = addMinutes(start, -30).toISOString();
@@ -1349,20 +2278,18 @@ function App() {
     setEventReminderList((current) => current.filter((_, currentIdx) => currentIdx !== idx));
   };
 
-  const toggleWeekday = (weekday: string) => {
-    setEventRecurrenceWeekdays((current) =>
-      current.includes(weekday) ? current.filter((entry) => entry !== weekday) : [...current, weekday],
-    );
-  };
-
   const handleCreateEvent = async (event: FormEvent) => {
     event.preventDefault();
     if (!eventTitle.trim() || !eventStartsAt || !eventEndsAt) {
       return;
     }
 
-    const startsAtIso = toIsoFromDateTimeLocal(eventStartsAt);
-    const endsAtIso = toIsoFromDateTimeLocal(eventEndsAt);
+    // All-day events keep their dates; their instants run from the first midnight to the one
+    // after the last day.
+    const startDate = eventStartsAt.slice(0, 10);
+    const endDate = eventEndsAt.slice(0, 10) > startDate ? eventEndsAt.slice(0, 10) : startDate;
+    const startsAtIso = zonedInputToIso(eventAllDay ? `${startDate}T00:00` : eventStartsAt, eventZone);
+    const endsAtIso = zonedInputToIso(eventAllDay ? `${getDayIso(addDays(parseISO(endDate), 1))}T00:00` : eventEndsAt, eventZone);
     if (!startsAtIso || !endsAtIso) {
       return;
     }
@@ -1377,22 +2304,29 @@ function App() {
       categoryId: eventPriorityId || null,
       startsAt: startsAtIso,
       endsAt: endsAtIso,
-      recurrenceRule: recurrenceToRRule({
-        type: eventRecurrence,
-        startsAtLocal: eventStartsAt,
-        untilDate: eventRecurrenceUntil,
-        weekdays: eventRecurrenceWeekdays,
-      }),
+      timeZone: eventZone,
+      allDay: eventAllDay,
+      startDate: eventAllDay ? startDate : null,
+      endDate: eventAllDay ? endDate : null,
+      recurrenceRule: eventRecurrence ? buildRecurrenceRule(eventRecurrence) : null,
       exceptionDates: currentEditing?.exceptionDates ?? [],
       reminders: eventReminderList,
       mentionUserIds,
+      rotationUserIds: eventRecurrence ? eventRotationUserIds : [],
+      tagIds: eventTagIds,
       color: eventColor,
       colorName: colorCategories[eventColor] || null,
       attachmentName: eventFile?.name ?? currentEditing?.attachmentName ?? null,
       attachmentDataUrl,
     };
 
-    if (editingEventId) {
+    if (editingEventId && editingOccurrenceId) {
+      await saveEventOccurrence(editingEventId, editingOccurrenceId, input);
+      setEventFeedback('Occorrenza aggiornata con successo.');
+    } else if (editingEventId && editingFollowingFrom) {
+      await splitEventSeries(editingEventId, editingFollowingFrom, input);
+      setEventFeedback('Serie aggiornata da questa occorrenza in poi.');
+    } else if (editingEventId) {
       await updateEvent(editingEventId, input);
       setEventFeedback('Evento aggiornato con successo.');
     } else {
@@ -1403,59 +2337,76 @@ function App() {
     setEventTitle('');
     setEventDescription('');
     setEventPriorityId('');
-    setEventRecurrence('none');
-    setEventRecurrenceUntil('');
-    setEventRecurrenceWeekdays([]);
+    setEventRecurrence(null);
+    setEventRotationUserIds([]);
+    setEventTagIds([]);
     setEventReminderPreset('30m');
     setEventReminderCustomAt('');
     setEventReminderList([]);
     setEventFile(null);
+    setEventZone(deviceTimeZone());
+    setEventAllDay(false);
     setEditingEventId(null);
+    setEditingOccurrenceId(null);
+    setEditingFollowingFrom(null);
   };
 
   const handleDeleteOccurrence = async (event: AgendaEvent) => {
     if (event.source !== 'planest') {
       return;
     }
-    await deleteEventOccurrence(event.baseEventId, event.occurrenceDate);
+    await deleteEventOccurrence(event.baseEventId, originalOccurrenceDate(event));
   };
 
   const handleDeleteSeries = async (event: AgendaEvent) => {
     if (event.source !== 'planest') {
       return;
     }
-    await deleteEventSeries(event.baseEventId);
+    await deleteEventSeries(event.seriesEventId ?? event.baseEventId);
   };
 
   const handleDeleteSeriesPartial = async (event: AgendaEvent) => {
     if (event.source !== 'planest' || !event.isRecurring) {
       return;
     }
-    await trimEventSeries(event.baseEventId, event.occurrenceDate);
+    await trimEventSeries(event.seriesEventId ?? event.baseEventId, originalOccurrenceDate(event));
   };
 
-  const handleStartEditEvent = (event: AgendaEvent) => {
+  // 'occurrence' saves the changes as an edited copy of that one occurrence, 'following'
+  // splits the series at it.
+  const handleStartEditEvent = (event: AgendaEvent, scope: 'series' | 'occurrence' | 'following' = 'series') => {
+    const occurrenceOnly = scope === 'occurrence';
     if (event.source !== 'planest') {
       return;
     }
     setPage('calendar');
     const sourceEvent = events.find((entry) => entry.id === event.baseEventId);
-    const recurrence = parseRecurrenceRule(sourceEvent?.recurrenceRule ?? null);
     setEditingEventId(event.baseEventId);
+    setEditingOccurrenceId(occurrenceOnly ? event.startsAt.toISOString() : null);
+    setEditingFollowingFrom(scope === 'following' ? event.startsAt.toISOString() : null);
     setEventTitle(event.title);
     setEventDescription(sourceEvent?.description ?? event.description ?? '');
     setEventPriorityId(event.priorityId ?? '');
-    setEventStartsAt(toDateTimeLocalValue(event.startsAt));
-    setEventEndsAt(toDateTimeLocalValue(event.endsAt));
+    const timeZone = sourceEvent ? eventTimeZone(sourceEvent) : deviceTimeZone();
+    setEventZone(timeZone);
+    setEventAllDay(event.allDay);
+    setEventStartsAt(event.allDay ? `${event.occurrenceDate}T00:00` : isoToZonedInput(event.startsAt, timeZone));
+    setEventEndsAt(event.allDay ? `${event.lastDate}T00:00` : isoToZonedInput(event.endsAt, timeZone));
     setEventColor(event.color);
     setEventReminderList(sourceEvent?.reminders ?? []);
     setEventReminderPreset('30m');
     setEventReminderCustomAt('');
     setEventFile(null);
-    setEventRecurrence(recurrence.type);
-    setEventRecurrenceUntil(recurrence.untilDate);
-    setEventRecurrenceWeekdays(recurrence.weekdays);
-    setEventFeedback('Evento caricato in modifica.');
+    setEventRecurrence(parseRecurrence(occurrenceOnly ? null : sourceEvent?.recurrenceRule ?? null));
+    setEventRotationUserIds(sourceEvent?.rotationUserIds ?? []);
+    setEventTagIds(sourceEvent?.tagIds ?? []);
+    setEventFeedback(
+      occurrenceOnly || sourceEvent?.seriesEventId
+        ? 'Occorrenza caricata in modifica.'
+        : scope === 'following'
+          ? 'Serie caricata in modifica da questa occorrenza in poi.'
+          : 'Evento caricato in modifica.',
+    );
     window.setTimeout(() => {
       if (!eventFormCardRef.current) {
         return;
@@ -1468,8 +2419,15 @@ function App() {
     }, 30);
   };
 
+  const isEditingSingleOccurrence =
+    editingOccurrenceId !== null || Boolean(editingEventId && eventsById.get(editingEventId)?.seriesEventId);
+
   const handleCancelEditEvent = () => {
     setEditingEventId(null);
+    setEditingOccurrenceId(null);
+    setEditingFollowingFrom(null);
+    setEventZone(deviceTimeZone());
+    setEventAllDay(false);
     setEventTitle('');
     setEventDescription('');
     setEventPriorityId('');
@@ -1477,12 +2435,12 @@ function App() {
     setEventReminderPreset('30m');
     setEventReminderCustomAt('');
     setEventFile(null);
-    setEventRecurrence('none');
-    setEventRecurrenceUntil('');
-    setEventRecurrenceWeekdays([]);
+    setEventRecurrence(null);
+    setEventRotationUserIds([]);
+    setEventTagIds([]);
   };
 
-  if (usesSupabase && !session) {
+  if (usesSync && !session) {
     return (
       <div className="app-shell">
         <section className="card auth-card">
@@ -1551,7 +2509,7 @@ function App() {
           >
             Priorita
           </button>
-          {usesSupabase && (
+          {usesSync && (
             <div className="user-menu-wrap" ref={userMenuRef}>
               <button
                 type="button"
@@ -1605,6 +2563,18 @@ function App() {
                   ))}
                 </select>
               </label>
+
+              <label className="toolbar-inline-field">
+                Filtro tag
+                <select value={filterTagId} onChange={(event) => setFilterTagId(event.target.value)}>
+                  <option value="all">Tutti</option>
+                  {tags.map((tag) => (
+                    <option key={tag.id} value={tag.id}>
+                      #{tag.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
             </>
           )}
 
@@ -1647,28 +2617,165 @@ function App() {
 
           <article className="card span-2">
             <h3>Stato avanzamento priorita</h3>
+            <label className="toggle-line">
+              <input
+                type="checkbox"
+                checked={progressOptions.excludeCancelled}
+                onChange={(event) => void setProgressOptions({ ...progressOptions, excludeCancelled: event.target.checked })}
+              />
+              Escludi azioni annullate
+            </label>
             <div className="progress-list">
               {visiblePriorities.map((priority) => (
-                <div key={priority.id} className="progress-card compact">
-                  <div className="progress-head">
-                    <strong>{priority.title}</strong>
-                    <strong style={{ color: priority.color }}>{categoryProgressMap.get(priority.id) ?? 0}%</strong>
-                  </div>
-                </div>
+                <ProgressRow
+                  key={priority.id}
+                  label={priority.title}
+                  color={priority.color}
+                  progress={categoryProgressMap.get(priority.id)}
+                />
               ))}
               {visiblePriorities.length === 0 && <p>Nessuna priorita.</p>}
             </div>
+            <h3>Avanzamento per owner</h3>
+            <div className="progress-list">
+              {Array.from(ownerProgressMap, ([ownerKey, progress]) => (
+                <ProgressRow
+                  key={ownerKey}
+                  label={effectiveUsers.find((user) => user.id === ownerKey)?.displayName ?? ownerKey}
+                  progress={progress}
+                />
+              ))}
+              {ownerProgressMap.size === 0 && <p>Nessun owner.</p>}
+            </div>
           </article>
 
+          {session && (
+            <article className="card span-2">
+              <h3>Le mie azioni</h3>
+              <div className="conflict-list">
+                {myActions.map((action) => (
+                  <div key={action.id} className="progress-card compact conflict-row">
+                    <div>
+                      <small className="hierarchy-label">{categoryMap.get(action.categoryId)?.title ?? 'Priorita'}</small>
+                      <strong>{action.title}</strong>
+                      <small>
+                        {action.percentComplete}%{action.dueDate ? ` · scade ${formatReminder(action.dueDate)}` : ''}
+                        {blockedActionIds.has(action.id) ? ' · bloccata' : ''}
+                      </small>
+                    </div>
+                    <div className="mini-actions">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setPage('priorities');
+                          setExpandedPriorityId(action.categoryId);
+                        }}
+                      >
+                        Apri
+                      </button>
+                    </div>
+                  </div>
+                ))}
+                {myActions.length === 0 && <p>Nessuna azione assegnata a te.</p>}
+              </div>
+            </article>
+          )}
+
+          {conflicts.length > 0 && (
+            <article className="card span-2">
+              <h3>Conflitti di sincronizzazione</h3>
+              <div className="conflict-list">
+                {conflicts.filter(isStored).map((conflict) => (
+                  <div key={conflict.id} className="progress-card compact conflict-row">
+                    <div>
+                      <small className="hierarchy-label">{syncTableLabels[conflict.table]}</small>
+                      <strong>{describeConflict(conflict)}</strong>
+                      <small>
+                        Modificato su due dispositivi:{' '}
+                        {Array.from(new Set(conflict.fields.map((field) => conflictFieldLabels[field] ?? field))).join(', ')}
+                      </small>
+                    </div>
+                    <div className="mini-actions">
+                      <button type="button" onClick={() => void resolveConflict(conflict.id, 'local')}>
+                        Tieni la mia
+                      </button>
+                      <button type="button" onClick={() => void resolveConflict(conflict.id, 'remote')}>
+                        Tieni la remota
+                      </button>
+                      {(conflict.table === 'actions' || conflict.table === 'events') && (
+                        <button type="button" onClick={() => void resolveConflict(conflict.id, 'both')}>
+                          Tieni entrambe
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </article>
+          )}
+
+          {deadLetters.length > 0 && (
+            <article className="card span-2">
+              <h3>Modifiche non sincronizzate</h3>
+              <div className="conflict-list">
+                {deadLetters.filter(isStored).map((deadLetter) => (
+                  <div key={deadLetter.id} className="progress-card compact conflict-row">
+                    <div>
+                      <small className="hierarchy-label">
+                        {syncTableLabels[deadLetter.mutation.table]} · {deadLetter.mutation.op === 'delete' ? 'eliminazione' : 'modifica'}
+                      </small>
+                      <strong>{String(deadLetter.mutation.payload.title ?? deadLetter.mutation.payload.id)}</strong>
+                      <small>
+                        {deadLetter.kind === 'permanent' ? 'Rifiutata dal server' : `Fallita ${deadLetter.attempts} volte`}:{' '}
+                        {deadLetter.error}
+                      </small>
+                    </div>
+                    <div className="mini-actions">
+                      <button type="button" onClick={() => void retryDeadLetter(deadLetter.id)}>
+                        Riprova
+                      </button>
+                      <button type="button" onClick={() => void discardDeadLetter(deadLetter.id)}>
+                        Scarta
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </article>
+          )}
+
           <article className="card home-sync-banner span-2">
             <div>
-              <strong>{usesSupabase ? 'Cloud connesso' : 'Locale offline'}</strong>
+              <strong>
+                {!usesSync ? 'Locale offline' : syncStatus.connection === 'online' ? 'Cloud connesso' : connectionLabels[syncStatus.connection]}
+              </strong>
               <small>{lastSyncAt ? `Ultima sync: ${format(new Date(lastSyncAt), 'dd/MM/yyyy HH:mm')}` : 'Nessuna sync eseguita'}</small>
+              {syncStatus.pendingCount > 0 && <small>{syncStatus.pendingCount} modifiche in attesa di invio</small>}
+              {syncStatus.progress && syncStatus.progress.total > 0 && (
+                <div className="sync-progress">
+                  <small>
+                    Download {syncTableLabels[syncStatus.progress.table]}: {syncStatus.progress.received} / {syncStatus.progress.total}
+                  </small>
+                  <div className="bar">
+                    <span
+                      style={{
+                        width: `${Math.round((syncStatus.progress.received / syncStatus.progress.total) * 100)}%`,
+                        backgroundColor: 'var(--accent)',
+                      }}
+                    />
+                  </div>
+                </div>
+              )}
             </div>
             <div className="mini-actions">
               <button type="button" onClick={() => void syncNow()} disabled={isSyncing}>
                 {isSyncing ? 'Sync...' : 'Sincronizza'}
               </button>
+              {usesSync && (
+                <button type="button" onClick={() => void forceFullSync()} disabled={isSyncing} title="Riscarica tutti i dati dal cloud">
+                  Resync completa
+                </button>
+              )}
               <button type="button" onClick={requestNotifications} disabled={notificationPermission === 'granted'}>
                 {notificationPermission === 'granted'
                   ? 'Notifiche attive'
@@ -1677,7 +2784,111 @@ function App() {
                     : 'Notifiche'}
               </button>
             </div>
+            <label className="toggle-line">
+              <input
+                type="checkbox"
+                checked={notifyUnblocked}
+                onChange={(event) => {
+                  setNotifyUnblocked(event.target.checked);
+                  localStorage.setItem('planest_notify_unblocked', event.target.checked ? '1' : '0');
+                }}
+              />
+              <span>Avvisami quando un'azione in cui sono taggato si sblocca</span>
+            </label>
           </article>
+
+          {usesSync && (
+            <details className="card panel-card span-2">
+              <summary>Gestione conflitti sync</summary>
+              <div className="details-form conflict-policy-grid">
+                {(Object.keys(syncTableLabels) as SyncTable[]).map((table) => (
+                  <label key={table}>
+                    <span>{syncTableLabels[table]}</span>
+                    <select
+                      value={conflictPolicies[table]}
+                      onChange={(event) => void setConflictPolicy(table, event.target.value as ConflictPolicy)}
+                    >
+                      {conflictPolicyOptions
+                        .filter((option) => option.value !== 'keep-both' || table === 'actions' || table === 'events')
+                        .map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            </details>
+          )}
+
+          {usesSync && (
+            <details className="card panel-card span-2">
+              <summary>Diagnostica sync</summary>
+              <div className="details-form sync-diagnostics">
+                <dl className="sync-diagnostics-grid">
+                  <dt>Stato</dt>
+                  <dd>{connectionLabels[syncStatus.connection]}</dd>
+                  <dt>Modifiche in coda</dt>
+                  <dd>{syncStatus.pendingCount}</dd>
+                  <dt>Ultimo errore</dt>
+                  <dd>
+                    {syncStatus.lastError
+                      ? `${syncStatus.lastError.table ? `${syncTableLabels[syncStatus.lastError.table]}: ` : ''}${syncStatus.lastError.message}`
+                      : 'Nessuno'}
+                  </dd>
+                  {(Object.keys(syncTableLabels) as SyncTable[]).map((table) => (
+                    <Fragment key={table}>
+                      <dt>Download {syncTableLabels[table]}</dt>
+                      <dd>{formatSyncTime(syncStatus.cursors.find((cursor) => cursor.table === table)?.pulledAt)}</dd>
+                    </Fragment>
+                  ))}
+                </dl>
+                {syncStatus.quarantined.length > 0 && (
+                  <div className="conflict-list">
+                    <strong>Righe non valide ricevute dal server</strong>
+                    {syncStatus.quarantined.map((entry) => (
+                      <div key={`${entry.table}-${entry.rowId}`} className="progress-card compact conflict-row">
+                        <div>
+                          <small className="hierarchy-label">
+                            {syncTableLabels[entry.table]} · {formatSyncTime(entry.receivedAt)}
+                          </small>
+                          <strong>{String(entry.row.title ?? entry.row.display_name ?? entry.rowId)}</strong>
+                          {entry.errors.map((error) => (
+                            <small key={error}>{error}</small>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="conflict-list">
+                  {syncStatus.history.length === 0 && <small>Nessuna sync registrata</small>}
+                  {syncStatus.history.map((entry) => (
+                    <div key={entry.id} className="progress-card compact conflict-row">
+                      <div>
+                        <small className="hierarchy-label">
+                          {formatSyncTime(entry.startedAt)} · {entry.source === 'background' ? 'in background' : entry.source === 'realtime' ? 'tempo reale' : 'app'}
+                          {entry.full ? ' · completa' : ''}
+                        </small>
+                        <strong>
+                          {entry.issues.length > 0 ? `${entry.issues.length} errori` : 'Completata'} · inviate {entry.pushed}, ricevute{' '}
+                          {entry.pulled}
+                        </strong>
+                        {entry.issues.map((issue, index) => (
+                          <small key={index}>
+                            {issue.table ? `${syncTableLabels[issue.table]}: ` : ''}
+                            {issue.code ? `${issue.code} ` : ''}
+                            {issue.message}
+                          </small>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </details>
+          )}
         </section>
       )}
 
@@ -1709,6 +2920,7 @@ function App() {
                     ))}
                   </select>
                 </label>
+                <TagPicker tags={tags} value={priorityTagIds} onChange={setPriorityTagIds} />
                 <button type="submit">Aggiungi priorita</button>
               </form>
             </details>
@@ -1739,6 +2951,7 @@ function App() {
                       ))}
                     </select>
                   </label>
+                  <TagPicker tags={tags} value={editingPriorityTagIds} onChange={setEditingPriorityTagIds} />
                   <div className="mini-actions">
                     <button type="submit">Salva modifica</button>
                     <button type="button" className="link-btn" onClick={handleCancelEditPriority}>
@@ -1749,10 +2962,64 @@ function App() {
               </details>
             )}
 
+            <details className="card panel-card">
+              <summary>Tag</summary>
+              <form className="form-card details-form" onSubmit={handleCreateTag}>
+                <input value={tagName} onChange={(event) => setTagName(event.target.value)} placeholder="Nome tag (es. scuola)" required />
+                <label className="color-row">
+                  <span className="swatch" style={{ backgroundColor: tagColor }} />
+                  <select value={tagColor} onChange={(event) => setTagColor(event.target.value)}>
+                    {presetColors.map((color) => (
+                      <option key={color.value} value={color.value}>
+                        {getColorOptionLabel(color.value, colorCategories)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <button type="submit">Aggiungi tag</button>
+              </form>
+              <div className="reminder-list">
+                {tags.map((tag) => (
+                  <span key={tag.id} className="reminder-chip tag-chip" style={{ borderColor: tag.color, color: tag.color }}>
+                    <button type="button" className="link-btn" onClick={() => void handleRenameTag(tag)}>
+                      #{tag.name}
+                    </button>
+                    <button type="button" onClick={() => void handleDeleteTag(tag)}>
+                      x
+                    </button>
+                  </span>
+                ))}
+                {tags.length === 0 && <small>Nessun tag.</small>}
+              </div>
+            </details>
+
+            <details className="card panel-card">
+              <summary>Nuova Voce</summary>
+              <form className="form-card details-form" onSubmit={handleCreateItem}>
+                <select value={itemPriorityId} onChange={(event) => setItemPriorityId(event.target.value)} required>
+                  <option value="">Seleziona priorita</option>
+                  {categories.map((priority) => (
+                    <option key={priority.id} value={priority.id}>
+                      {priority.title}
+                    </option>
+                  ))}
+                </select>
+                <input value={itemTitle} onChange={(event) => setItemTitle(event.target.value)} placeholder="Titolo voce (es. Bagno)" required />
+                <button type="submit">Aggiungi voce</button>
+              </form>
+            </details>
+
             <details className="card panel-card">
               <summary>Nuova Azione</summary>
               <form className="form-card details-form" onSubmit={handleCreateAction}>
-                <select value={actionPriorityId} onChange={(event) => setActionPriorityId(event.target.value)} required>
+                <select
+                  value={actionPriorityId}
+                  onChange={(event) => {
+                    setActionPriorityId(event.target.value);
+                    setActionItemId('');
+                  }}
+                  required
+                >
                   <option value="">Seleziona priorita</option>
                   {categories.map((priority) => (
                     <option key={priority.id} value={priority.id}>
@@ -1760,9 +3027,69 @@ function App() {
                     </option>
                   ))}
                 </select>
+                <select value={actionItemId} onChange={(event) => setActionItemId(event.target.value)} disabled={!actionPriorityId}>
+                  <option value="">Voce: Generale</option>
+                  {items
+                    .filter((item) => item.categoryId === actionPriorityId && item.id !== defaultItemIdFor(item.categoryId))
+                    .map((item) => (
+                      <option key={item.id} value={item.id}>
+                        Voce: {item.title}
+                      </option>
+                    ))}
+                </select>
                 <textarea value={actionTitle} onChange={(event) => setActionTitle(event.target.value)} placeholder="Azione con @NomeUtente" rows={2} required />
                 <MentionHelper users={effectiveUsers} onMention={(user) => setActionTitle((current) => appendMention(current, user))} />
                 <input type="datetime-local" value={actionDueDate} onChange={(event) => setActionDueDate(event.target.value)} />
+                <label className="field-inline">
+                  Peso (impegno)
+                  <input
+                    type="number"
+                    min="0.5"
+                    step="0.5"
+                    value={actionWeight}
+                    onChange={(event) => setActionWeight(event.target.value)}
+                  />
+                </label>
+                <select
+                  value={actionRecurrence}
+                  onChange={(event) => setActionRecurrence(event.target.value as (typeof actionRecurrenceOptions)[number]['value'])}
+                >
+                  {actionRecurrenceOptions.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                {actionRecurrence === 'after' && (
+                  <label className="field-inline">
+                    Giorni dopo
+                    <input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={actionRepeatAfterDays}
+                      onChange={(event) => setActionRepeatAfterDays(event.target.value)}
+                    />
+                  </label>
+                )}
+                {(actionRecurrence === 'none' || actionRotationUserIds.length === 0) && (
+                  <UserPicker
+                    label="Assegnata a:"
+                    users={effectiveUsers}
+                    value={actionAssigneeUserIds}
+                    onChange={setActionAssigneeUserIds}
+                  />
+                )}
+                {actionRecurrence !== 'none' && (
+                  <UserPicker
+                    label="Turni a rotazione:"
+                    users={effectiveUsers}
+                    value={actionRotationUserIds}
+                    ordered
+                    onChange={setActionRotationUserIds}
+                  />
+                )}
+                <TagPicker tags={tags} value={actionTagIds} onChange={setActionTagIds} />
                 <ReminderEditor
                   label="Reminder azione"
                   inputValue={actionReminderInput}
@@ -1809,7 +3136,7 @@ function App() {
                   ))}
                 </select>
 
-                <label htmlFor="priority-filter-utente">Filtro utente</label>
+                <label htmlFor="priority-filter-utente">Assegnata a</label>
                 <select id="priority-filter-utente" value={filterUserId} onChange={(event) => setFilterUserId(event.target.value)}>
                   <option value="all">Tutti</option>
                   {effectiveUsers.map((user) => (
@@ -1819,14 +3146,25 @@ function App() {
                   ))}
                 </select>
 
+                <label htmlFor="priority-filter-tag">Filtro tag</label>
+                <select id="priority-filter-tag" value={filterTagId} onChange={(event) => setFilterTagId(event.target.value)}>
+                  <option value="all">Tutti</option>
+                  {tags.map((tag) => (
+                    <option key={tag.id} value={tag.id}>
+                      #{tag.name}
+                    </option>
+                  ))}
+                </select>
+
                 <label htmlFor="priority-filter-stato">Stato azioni</label>
                 <select
                   id="priority-filter-stato"
                   value={priorityActionStatusFilter}
-                  onChange={(event) => setPriorityActionStatusFilter(event.target.value as 'all' | 'open' | 'done')}
+                  onChange={(event) => setPriorityActionStatusFilter(event.target.value as 'all' | 'open' | 'blocked' | 'done')}
                 >
                   <option value="all">Tutte</option>
                   <option value="open">Aperte</option>
+                  <option value="blocked">Bloccate</option>
                   <option value="done">Fatte</option>
                 </select>
               </div>
@@ -1840,6 +3178,9 @@ function App() {
                   if (priorityActionStatusFilter !== 'all' && priorityActions.length === 0) {
                     return null;
                   }
+                  const priorityItems = items
+                    .filter((item) => item.categoryId === priority.id)
+                    .sort((left, right) => left.createdAt.localeCompare(right.createdAt));
 
                   return (
                     <article key={priority.id} className="progress-card priority-card">
@@ -1847,7 +3188,7 @@ function App() {
                         onEdit={() => handleStartEditPriority(priority.id, priority.title, priority.color)}
                         onDelete={() => handleDeletePriority(priority.id)}
                         leftAction={
-                          (categoryProgressMap.get(priority.id) ?? 0) >= 100
+                          (categoryProgressMap.get(priority.id)?.weightedProgress ?? 0) >= 100
                             ? { label: 'Riapri', onClick: () => handleReopenPriority(priority.id) }
                             : { label: 'Fatto', onClick: () => handleMarkPriorityDone(priority.id) }
                         }
@@ -1860,9 +3201,10 @@ function App() {
                               Owner: {priority.owner}
                               {colorCategories[priority.color] ? ` · ${colorCategories[priority.color]}` : ''}
                             </p>
+                            <TagChips tagIds={priority.tagIds} tagsById={tagsById} />
                           </div>
                           <div className="row-end">
-                            <strong style={{ color: priority.color }}>{categoryProgressMap.get(priority.id) ?? 0}%</strong>
+                            <strong style={{ color: priority.color }}>{categoryProgressMap.get(priority.id)?.weightedProgress ?? 0}%</strong>
                             <button
                               type="button"
                               className="expand-btn"
@@ -1875,30 +3217,197 @@ function App() {
                       </SwipeActionRow>
 
                       {expandedPriorityId === priority.id && (
-                        <div className="item-actions">
-                          {priorityActions.map((action) => (
-                            <SwipeActionRow
-                              key={action.id}
-                              onEdit={() => handleEditAction(action.id, action.title)}
-                              onDelete={() => handleDeleteAction(action.id)}
-                              leftAction={
-                                action.percentComplete >= 100
-                                  ? { label: 'Riapri', onClick: () => handleReopenAction(action.id) }
-                                  : { label: 'Fatto', onClick: () => handleMarkActionDone(action.id) }
-                              }
-                            >
-                              <div className="action-row action-row-readonly">
-                                <div className="action-main">
-                                  <span className="action-topline">
-                                    <small className="hierarchy-label">Azione</small>
-                                    <strong>{action.percentComplete}%</strong>
-                                  </span>
-                                  <span>{action.title}</span>
+                        <div>
+                          {priorityItems.map((item) => {
+                            const itemActions = priorityActions.filter((action) => action.itemId === item.id);
+                            if (priorityActionStatusFilter !== 'all' && itemActions.length === 0) {
+                              return null;
+                            }
+
+                            return (
+                              <div key={item.id} className="item-block">
+                                <SwipeActionRow
+                                  onEdit={() => handleEditItem(item.id, item.title)}
+                                  onDelete={() => deleteItem(item.id)}
+                                  leftAction={
+                                    (itemProgressMap.get(item.id)?.weightedProgress ?? 0) >= 100
+                                      ? { label: 'Riapri', onClick: () => handleReopenItem(item.id) }
+                                      : { label: 'Fatto', onClick: () => handleMarkItemDone(item.id) }
+                                  }
+                                >
+                                  <div className="item-head hierarchy-row row-compact">
+                                    <div>
+                                      <small className="hierarchy-label">Voce</small>
+                                      <h4>{item.title}</h4>
+                                    </div>
+                                    <strong style={{ color: priority.color }}>{itemProgressMap.get(item.id)?.weightedProgress ?? 0}%</strong>
+                                  </div>
+                                </SwipeActionRow>
+
+                                <div className="item-actions">
+                                  {itemActions.map((action) => (
+                                    <Fragment key={action.id}>
+                                      <SwipeActionRow
+                                        onEdit={() => handleEditAction(action.id, action.title)}
+                                        onDelete={() => handleDeleteAction(action.id)}
+                                        leftAction={
+                                          action.percentComplete >= 100
+                                            ? { label: 'Riapri', onClick: () => handleReopenAction(action.id) }
+                                            : blockedActionIds.has(action.id)
+                                              ? undefined
+                                              : { label: 'Fatto', onClick: () => handleMarkActionDone(action.id) }
+                                        }
+                                      >
+                                        <div className={`action-row action-row-readonly${action.isCancelled ? ' is-cancelled' : ''}`}>
+                                          <div className="action-main">
+                                            <span className="action-topline">
+                                              <small className="hierarchy-label">Azione · peso {action.weight}</small>
+                                              <strong>{action.percentComplete}%</strong>
+                                            </span>
+                                            <span>{action.title}</span>
+                                            <TagChips tagIds={action.tagIds} tagsById={tagsById} />
+                                            {describeActionRecurrence(action) && (
+                                              <small>
+                                                ↻ {describeActionRecurrence(action)}
+                                                {action.dueDate ? ` · scade ${formatReminder(action.dueDate)}` : ''}
+                                                {completedBySeries.get(seriesKeyOf(action))
+                                                  ? ` · ${completedBySeries.get(seriesKeyOf(action))} volte completata`
+                                                  : ''}
+                                              </small>
+                                            )}
+                                            {action.rotationUserIds.length === 0 && action.assigneeUserIds.length > 0 && (
+                                              <small>
+                                                Assegnata a:{' '}
+                                                {action.assigneeUserIds
+                                                  .map((userId) => effectiveUsers.find((user) => user.id === userId)?.displayName ?? 'utente rimosso')
+                                                  .join(', ')}
+                                              </small>
+                                            )}
+                                            {action.rotationUserIds.length > 0 && !isActionFinished(action) && (
+                                              <TurnControls
+                                                rotationUserIds={action.rotationUserIds}
+                                                assigneeUserId={action.assigneeUserId}
+                                                users={effectiveUsers}
+                                                onSkip={() => skipActionTurn(action.id)}
+                                                onSwap={(userId) => swapActionTurn(action.id, userId)}
+                                              />
+                                            )}
+                                            {blockedActionIds.has(action.id) && (
+                                              <small>
+                                                Bloccata da:{' '}
+                                                {openBlockersOf(action, actionsById)
+                                                  .map((blocker) => blocker.title)
+                                                  .join(', ')}
+                                              </small>
+                                            )}
+                                            <ProgressSlider
+                                              key={action.percentComplete}
+                                              value={action.percentComplete}
+                                              disabled={action.isCancelled || action.progressFromSubtasks || blockedActionIds.has(action.id)}
+                                              onCommit={(value) => updateActionProgress(action.id, value)}
+                                            />
+                                          </div>
+                                          <div className="mini-actions">
+                                            <small>{actionStateLabel(action, blockedActionIds.has(action.id))}</small>
+                                            <button
+                                              type="button"
+                                              className="link-btn"
+                                              onClick={() =>
+                                                setExpandedChecklistActionId((current) => (current === action.id ? null : action.id))
+                                              }
+                                            >
+                                              Checklist {checklistLabel(subtasksByAction.get(action.id))}
+                                            </button>
+                                            <button
+                                              type="button"
+                                              className="link-btn"
+                                              onClick={() =>
+                                                setExpandedBlockersActionId((current) => (current === action.id ? null : action.id))
+                                              }
+                                            >
+                                              Dipendenze {action.blockedByIds.length > 0 ? action.blockedByIds.length : ''}
+                                            </button>
+                                            <button
+                                              type="button"
+                                              className="link-btn"
+                                              onClick={() => setExpandedTagsActionId((current) => (current === action.id ? null : action.id))}
+                                            >
+                                              Tag
+                                            </button>
+                                            {action.rotationUserIds.length === 0 && (
+                                              <button
+                                                type="button"
+                                                className="link-btn"
+                                                onClick={() =>
+                                                  setExpandedAssigneesActionId((current) => (current === action.id ? null : action.id))
+                                                }
+                                              >
+                                                Assegna
+                                              </button>
+                                            )}
+                                            <button
+                                              type="button"
+                                              className="link-btn"
+                                              onClick={() => handleEditActionWeight(action.id, action.weight)}
+                                            >
+                                              Peso
+                                            </button>
+                                            <button
+                                              type="button"
+                                              className="link-btn"
+                                              onClick={() => setActionCancelled(action.id, !action.isCancelled)}
+                                            >
+                                              {action.isCancelled ? 'Ripristina' : 'Annulla'}
+                                            </button>
+                                          </div>
+                                        </div>
+                                      </SwipeActionRow>
+                                      {expandedTagsActionId === action.id && (
+                                        <div className="subtask-list">
+                                          <TagPicker
+                                            tags={tags}
+                                            value={action.tagIds}
+                                            onChange={(tagIds) => setActionTags(action.id, tagIds)}
+                                          />
+                                        </div>
+                                      )}
+                                      {expandedAssigneesActionId === action.id && (
+                                        <div className="subtask-list">
+                                          <UserPicker
+                                            label="Assegnata a:"
+                                            users={effectiveUsers}
+                                            value={action.assigneeUserIds}
+                                            onChange={(userIds) => setActionAssignees(action.id, userIds)}
+                                          />
+                                        </div>
+                                      )}
+                                      {expandedBlockersActionId === action.id && (
+                                        <BlockerEditor
+                                          action={action}
+                                          candidates={blockerCandidates}
+                                          onChange={(blockedByIds) => handleChangeBlockers(action.id, blockedByIds)}
+                                        />
+                                      )}
+                                      {expandedChecklistActionId === action.id && (
+                                        <SubtaskChecklist
+                                          subtasks={subtasksByAction.get(action.id) ?? []}
+                                          isBlocked={blockedActionIds.has(action.id)}
+                                          progressFromSubtasks={action.progressFromSubtasks}
+                                          onToggleProgressFromSubtasks={(enabled) => setProgressFromSubtasks(action.id, enabled)}
+                                          onAdd={(title) => addSubtask(action.id, title)}
+                                          onUpdate={updateSubtask}
+                                          onMove={moveSubtask}
+                                          onDelete={deleteSubtask}
+                                        />
+                                      )}
+                                    </Fragment>
+                                  ))}
+                                  {itemActions.length === 0 && <small>Nessuna azione in questa voce.</small>}
                                 </div>
-                                <small>{action.percentComplete >= 100 ? 'Fatta' : 'Aperta'}</small>
                               </div>
-                            </SwipeActionRow>
-                          ))}
+                            );
+                          })}
+                          {priorityItems.length === 0 && <p>Nessuna voce in questa priorita.</p>}
                         </div>
                       )}
                     </article>
@@ -1949,7 +3458,7 @@ function App() {
                 </div>
                 <div className="month-grid">
                   {monthGridDays.map((day) => {
-                    const dayEvents = visibleCalendarEvents.filter((event) => isSameDay(event.startsAt, day));
+                    const dayEvents = visibleCalendarEvents.filter((event) => coversDay(event, day));
                     const hasHoliday = dayEvents.some((event) => event.source === 'holiday');
                     return (
                       <button
@@ -1967,7 +3476,7 @@ function App() {
                         <div className="mini-events">
                           {dayEvents.slice(0, 3).map((event) => (
                             <span key={event.id} style={{ borderLeftColor: event.color }}>
-                              {event.source === 'holiday' ? 'Festivita' : format(event.startsAt, 'HH:mm')} {event.title}
+                              {event.source === 'holiday' ? 'Festivita' : event.allDay ? '' : format(event.startsAt, 'HH:mm')} {event.title}
                             </span>
                           ))}
                         </div>
@@ -1981,7 +3490,7 @@ function App() {
             {calendarView === 'week' && (
               <div className="week-grid">
                 {weekDays.map((day) => {
-                  const dayEvents = visibleCalendarEvents.filter((event) => isSameDay(event.startsAt, day));
+                  const dayEvents = visibleCalendarEvents.filter((event) => coversDay(event, day));
                   const hasHoliday = dayEvents.some((event) => event.source === 'holiday');
                   return (
                     <button
@@ -2000,9 +3509,7 @@ function App() {
                         <div key={event.id} className="calendar-event" style={{ borderLeftColor: event.color }}>
                           <strong>{event.title}</strong>
                           <p>
-                            {event.source === 'holiday'
-                              ? 'Festivita nazionale'
-                              : `${format(event.startsAt, 'HH:mm')} - ${format(event.endsAt, 'HH:mm')}`}
+                            {event.source === 'holiday' ? 'Festivita nazionale' : formatEventTime(event)}
                           </p>
                         </div>
                       ))}
@@ -2023,7 +3530,7 @@ function App() {
                       <p>
                         {event.source === 'holiday'
                           ? `Festivita nazionale · ${format(event.startsAt, 'dd/MM')}`
-                          : `${format(event.startsAt, 'dd/MM HH:mm')} - ${format(event.endsAt, 'HH:mm')}`}
+                          : formatEventTime(event, true)}
                       </p>
                     </div>
                   </button>
@@ -2054,16 +3561,26 @@ function App() {
                     </button>
                     <div className="day-event-meta">
                       <small>
-                        {event.source === 'holiday'
-                          ? 'Festivita nazionale'
-                          : `${format(event.startsAt, 'HH:mm')} - ${format(event.endsAt, 'HH:mm')}`}
+                        {event.source === 'holiday' ? 'Festivita nazionale' : formatEventTime(event)}
                       </small>
+                      {event.source === 'planest' && !event.allDay && event.timeZone !== deviceTimeZone() && (
+                        <small title="Orario nel fuso dell'evento">
+                          {isoToZonedInput(event.startsAt, event.timeZone).slice(11)} {event.timeZone}
+                        </small>
+                      )}
+                      {event.assigneeUserId && (
+                        <small>Turno: {effectiveUsers.find((user) => user.id === event.assigneeUserId)?.displayName ?? 'utente rimosso'}</small>
+                      )}
+                      <TagChips tagIds={event.tagIds} tagsById={tagsById} />
                       {hasReminders && <small title="Reminder attivi">🔔</small>}
                       {hasAttachment && <small title="Allegato presente">📎</small>}
                     </div>
                     {isExpanded && (
                       <div className="day-event-details">
                         {event.description && <p>{event.description}</p>}
+                        {event.isRecurring && !event.seriesEventId && (
+                          <small>{describeSeries(eventsById.get(event.baseEventId)?.recurrenceRule ?? null, event.startsAt, event.timeZone)}</small>
+                        )}
                         {(colorCategories[event.color] || event.colorName) && <small>{colorCategories[event.color] || event.colorName}</small>}
                         {hasReminders && (
                           <div className="reminder-list">
@@ -2079,11 +3596,32 @@ function App() {
                             {event.attachmentName}
                           </a>
                         )}
+                        {event.source === 'planest' && event.rotationUserIds.length > 0 && (
+                          <TurnControls
+                            rotationUserIds={event.rotationUserIds}
+                            assigneeUserId={event.assigneeUserId}
+                            users={effectiveUsers}
+                            onSkip={() => skipEventTurn(event.seriesEventId ?? event.baseEventId, event.recurrenceId ?? event.startsAt.toISOString())}
+                            onSwap={(userId) =>
+                              swapEventTurn(event.seriesEventId ?? event.baseEventId, event.recurrenceId ?? event.startsAt.toISOString(), userId)
+                            }
+                          />
+                        )}
                         {event.source === 'planest' && (
                           <div className="event-delete-row">
                             <button type="button" onClick={() => handleStartEditEvent(event)}>
-                              Modifica evento
+                              {event.seriesEventId ? 'Modifica occorrenza' : event.isRecurring ? 'Modifica serie' : 'Modifica evento'}
                             </button>
+                            {event.isRecurring && !event.seriesEventId && (
+                              <>
+                                <button type="button" onClick={() => handleStartEditEvent(event, 'occurrence')}>
+                                  Modifica occorrenza
+                                </button>
+                                <button type="button" onClick={() => handleStartEditEvent(event, 'following')}>
+                                  Modifica da qui in poi
+                                </button>
+                              </>
+                            )}
                             {event.isRecurring && (
                               <button type="button" onClick={() => void handleDeleteOccurrence(event)}>
                                 Elimina occorrenza
@@ -2128,49 +3666,76 @@ function App() {
                   ))}
                 </select>
 
-                <label className="field-inline">
-                  Inizio Evento
-                  <input type="datetime-local" value={eventStartsAt} onChange={(event) => handleEventStartChange(event.target.value)} required />
+                <label className="toggle-line">
+                  <input type="checkbox" checked={eventAllDay} onChange={(event) => setEventAllDay(event.target.checked)} />
+                  <span>Tutto il giorno</span>
                 </label>
+                {eventAllDay ? (
+                  <>
+                    <label className="field-inline">
+                      Dal
+                      <input
+                        type="date"
+                        value={eventStartsAt.slice(0, 10)}
+                        onChange={(event) => handleEventStartChange(`${event.target.value}T00:00`)}
+                        required
+                      />
+                    </label>
+                    <label className="field-inline">
+                      Al
+                      <input
+                        type="date"
+                        value={eventEndsAt.slice(0, 10)}
+                        min={eventStartsAt.slice(0, 10) || undefined}
+                        onChange={(event) => setEventEndsAt(`${event.target.value}T00:00`)}
+                        required
+                      />
+                    </label>
+                  </>
+                ) : (
+                  <>
+                    <label className="field-inline">
+                      Inizio Evento
+                      <input type="datetime-local" value={eventStartsAt} onChange={(event) => handleEventStartChange(event.target.value)} required />
+                    </label>
+                    <label className="field-inline">
+                      Fine Evento
+                      <input type="datetime-local" value={eventEndsAt} onChange={(event) => setEventEndsAt(event.target.value)} required />
+                    </label>
+                  </>
+                )}
                 <label className="field-inline">
-                  Fine Evento
-                  <input type="datetime-local" value={eventEndsAt} onChange={(event) => setEventEndsAt(event.target.value)} required />
+                  Fuso orario
+                  <select value={eventZone} onChange={(event) => setEventZone(event.target.value)}>
+                    {Array.from(new Set([eventZone, deviceTimeZone(), ...timeZoneOptions])).map((zone) => (
+                      <option key={zone} value={zone}>
+                        {zone}
+                      </option>
+                    ))}
+                  </select>
                 </label>
 
-                <select value={eventRecurrence} onChange={(event) => setEventRecurrence(event.target.value)}>
-                  <option value="none">Nessuna ricorrenza</option>
-                  <option value="daily">Ogni giorno</option>
-                  <option value="weekly">Settimanale personalizzata</option>
-                  <option value="monthly">Ogni mese</option>
-                </select>
-
-                {eventRecurrence === 'weekly' && (
-                  <div className="weekday-picker">
-                    {weekdayOptions.map((day) => (
-                      <label key={day.value} className="weekday-chip">
-                        <input
-                          type="checkbox"
-                          checked={eventRecurrenceWeekdays.includes(day.value)}
-                          onChange={() => toggleWeekday(day.value)}
-                        />
-                        <span>{day.label}</span>
-                      </label>
-                    ))}
-                  </div>
+                {!isEditingSingleOccurrence && (
+                  <RecurrenceEditor
+                    value={eventRecurrence}
+                    start={zonedInputToIso(eventStartsAt, eventZone)}
+                    timeZone={eventZone}
+                    onChange={setEventRecurrence}
+                  />
                 )}
 
-                {eventRecurrence !== 'none' && (
-                  <label>
-                    Fine ricorrenza
-                    <input
-                      type="date"
-                      value={eventRecurrenceUntil}
-                      min={eventStartsAt ? eventStartsAt.slice(0, 10) : undefined}
-                      onChange={(event) => setEventRecurrenceUntil(event.target.value)}
-                    />
-                  </label>
+                {eventRecurrence && (
+                  <UserPicker
+                    label="Turni a rotazione:"
+                    users={effectiveUsers}
+                    value={eventRotationUserIds}
+                    ordered
+                    onChange={setEventRotationUserIds}
+                  />
                 )}
 
+                <TagPicker tags={tags} value={eventTagIds} onChange={setEventTagIds} />
+
                 <div className="reminder-editor">
                   <label>Reminder evento</label>
                   <div className="reminder-row">
@@ -2227,7 +3792,15 @@ function App() {
                   </select>
                 </label>
 
-                <button type="submit">{editingEventId ? 'Salva modifica evento' : 'Aggiungi evento'}</button>
+                <button type="submit">
+                  {isEditingSingleOccurrence
+                    ? 'Salva occorrenza'
+                    : editingFollowingFrom
+                      ? 'Salva da qui in poi'
+                      : editingEventId
+                        ? 'Salva modifica evento'
+                        : 'Aggiungi evento'}
+                </button>
                 {eventFeedback && <small>{eventFeedback}</small>}
                 {editingEventId && (
                   <button type="button" className="link-btn" onClick={handleCancelEditEvent}>
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { buildNextInstance, openInstanceOf, supersededActionIds } from './actionRecurrence';
+import type { PlanAction } from './types';
+
+const action = (id: string, changes: Partial<PlanAction> = {}): PlanAction => ({
+  id,
+  categoryId: 'category-1',
+  itemId: 'item-1',
+  title: 'Buttare la carta',
+  percentComplete: 0,
+  weight: 1,
+  isCancelled: false,
+  progressFromSubtasks: false,
+  blockedByIds: [],
+  recurrenceRule: null,
+  repeatAfterDays: null,
+  seriesId: null,
+  rotationUserIds: [],
+  assigneeUserId: null,
+  assigneeUserIds: [],
+  tagIds: [],
+  dueDate: null,
+  reminders: [],
+  mentionUserIds: [],
+  createdAt: '2026-10-01T10:00:00.000Z',
+  updatedAt: '2026-10-01T10:00:00.000Z',
+  ...changes,
+});
+
+// Due on Monday 5 October 2026.
+const weekly = (changes: Partial<PlanAction> = {}) =>
+  action('root', { recurrenceRule: 'RRULE:FREQ=WEEKLY', dueDate: '2026-10-05T09:00:00.000Z', ...changes });
+
+describe('buildNextInstance', () => {
+  it('counts "days after" from the completion and starts the next one from scratch', () => {
+    const done = action('root', {
+      repeatAfterDays: 7,
+      dueDate: '2026-10-05T09:00:00.000Z',
+      percentComplete: 100,
+      blockedByIds: ['other'],
+      reminders: ['2026-10-05T08:00:00.000Z'],
+    });
+    const next = buildNextInstance(done, new Date('2026-10-06T09:00:00.000Z'), 'next');
+
+    expect(next).toMatchObject({
+      id: 'next',
+      seriesId: 'root',
+      percentComplete: 0,
+      blockedByIds: [],
+      dueDate: '2026-10-13T09:00:00.000Z',
+      reminders: ['2026-10-13T08:00:00.000Z'],
+      createdAt: '2026-10-06T09:00:00.000Z',
+    });
+  });
+
+  it('keeps a fixed schedule whether the completion comes early or late', () => {
+    expect(buildNextInstance(weekly(), new Date('2026-10-03T12:00:00.000Z'), 'next')?.dueDate).toBe('2026-10-12T09:00:00.000Z');
+    expect(buildNextInstance(weekly(), new Date('2026-10-14T12:00:00.000Z'), 'next')?.dueDate).toBe('2026-10-19T09:00:00.000Z');
+  });
+
+  it('hands the next instance to the next member and keeps the series of a later instance', () => {
+    const second = weekly({ id: 'second', seriesId: 'root', rotationUserIds: ['anna', 'bruno'], assigneeUserId: 'bruno' });
+    expect(buildNextInstance(second, new Date('2026-10-05T12:00:00.000Z'), 'third')).toMatchObject({
+      seriesId: 'root',
+      assigneeUserId: 'anna',
+    });
+  });
+
+  it('returns null for an action that does not repeat', () => {
+    expect(buildNextInstance(action('once'), new Date('2026-10-05T12:00:00.000Z'), 'next')).toBeNull();
+  });
+});
+
+describe('supersededActionIds', () => {
+  it('keeps the latest instance and unfinished older ones', () => {
+    const actions = [
+      weekly({ percentComplete: 100 }),
+      weekly({ id: 'second', seriesId: 'root', percentComplete: 0, createdAt: '2026-10-05T12:00:00.000Z' }),
+      weekly({ id: 'third', seriesId: 'root', percentComplete: 100, createdAt: '2026-10-12T12:00:00.000Z' }),
+      action('other', { percentComplete: 100 }),
+    ];
+    expect(supersededActionIds(actions)).toEqual(new Set(['root']));
+  });
+});
+
+describe('openInstanceOf', () => {
+  it('finds a reopened first instance when a later one is completed', () => {
+    const root = weekly({ percentComplete: 100 });
+    const second = buildNextInstance(root, new Date('2026-10-05T12:00:00.000Z'), 'second');
+    if (!second) {
+      throw new Error('expected a next instance');
+    }
+    const reopened = { ...root, percentComplete: 40 };
+    const completed = { ...second, percentComplete: 100 };
+
+    expect(openInstanceOf(completed, [reopened, completed])?.id).toBe('root');
+    expect(openInstanceOf(reopened, [reopened, second])?.id).toBe('second');
+  });
+
+  it('ignores the action itself, finished instances and other series', () => {
+    const completed = weekly({ id: 'second', seriesId: 'root', percentComplete: 100 });
+    const actions = [weekly({ percentComplete: 100 }), completed, action('other')];
+    expect(openInstanceOf(completed, actions)).toBeUndefined();
+  });
+});
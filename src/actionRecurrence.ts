@@ -0,0 +1,73 @@
+import { addDays } from 'date-fns';
+import { rrulestr, type RRule } from 'rrule';
+import { nextInRotation } from './rotation';
+import type { PlanAction } from './types';
+
+export const isRecurringAction = (action: PlanAction): boolean =>
+  Boolean(action.recurrenceRule) || action.repeatAfterDays !== null;
+
+// The first instance of a series is its own series id; the ones after it point back to it.
+export const seriesKeyOf = (action: PlanAction): string => action.seriesId ?? action.id;
+
+// "N days after" counts from the completion. A fixed schedule keeps its own rhythm: the
+// next occurrence after the due date, or after the completion when that came late.
+export const nextDueDate = (action: PlanAction, completedAt: Date): Date | null => {
+  if (action.repeatAfterDays !== null) {
+    return addDays(completedAt, action.repeatAfterDays);
+  }
+  if (!action.recurrenceRule) {
+    return null;
+  }
+  const anchor = new Date(action.dueDate ?? action.createdAt);
+  const rule = rrulestr(action.recurrenceRule.replace('RRULE:', ''), { dtstart: anchor }) as RRule;
+  return rule.after(completedAt > anchor ? completedAt : anchor, false);
+};
+
+// Another unfinished instance of the same series, the first one included: completing an
+// instance spawns nothing while one is still open (for example after a reopen).
+export const openInstanceOf = (action: PlanAction, actions: PlanAction[]): PlanAction | undefined =>
+  actions.find(
+    (candidate) => candidate.id !== action.id && seriesKeyOf(candidate) === seriesKeyOf(action) && candidate.percentComplete < 100,
+  );
+
+// The instance that follows a completed one: same placement and people, no progress,
+// reminders moved by the same distance as the due date and the next member's turn.
+export const buildNextInstance = (action: PlanAction, completedAt: Date, id: string): PlanAction | null => {
+  const dueDate = nextDueDate(action, completedAt);
+  if (!dueDate) {
+    return null;
+  }
+  const shift = dueDate.getTime() - new Date(action.dueDate ?? action.createdAt).getTime();
+  const timestamp = completedAt.toISOString();
+
+  return {
+    ...action,
+    id,
+    seriesId: seriesKeyOf(action),
+    percentComplete: 0,
+    isCancelled: false,
+    blockedByIds: [],
+    assigneeUserId: nextInRotation(action.rotationUserIds, action.assigneeUserId),
+    dueDate: dueDate.toISOString(),
+    reminders: action.reminders.map((reminder) => new Date(new Date(reminder).getTime() + shift).toISOString()),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+};
+
+// Completed instances that a newer instance of the same series has replaced. They stay
+// as history but no longer count as separate work.
+export const supersededActionIds = (actions: PlanAction[]): Set<string> => {
+  const latestBySeries = new Map<string, PlanAction>();
+  for (const action of actions) {
+    const latest = latestBySeries.get(seriesKeyOf(action));
+    if (!latest || action.createdAt > latest.createdAt) {
+      latestBySeries.set(seriesKeyOf(action), action);
+    }
+  }
+  return new Set(
+    actions
+      .filter((action) => latestBySeries.get(seriesKeyOf(action))?.id !== action.id && action.percentComplete >= 100)
+      .map((action) => action.id),
+  );
+};
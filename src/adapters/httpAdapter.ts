@@ -0,0 +1,137 @@
+import { db } from '../db';
+import type { ChangeChannelFactory, RealtimeChange } from '../realtime';
+import type { SyncTable } from '../types';
+import type { AdapterResult, AuthSession, ChangePage, RemoteRow, SyncAdapter } from './types';
+
+type StoredSession = AuthSession & {
+  token: string;
+};
+
+const sessionSettingKey = 'httpAuthSession';
+
+// Talks to the self-hosted server in `server/`. The session lives in IndexedDB so every
+// context that opens the database shares the same login.
+export const createHttpAdapter = (baseUrl: string): SyncAdapter => {
+  const listeners = new Set<(session: AuthSession | null) => void>();
+
+  const readSession = async (): Promise<StoredSession | null> =>
+    ((await db.settings.get(sessionSettingKey))?.value as StoredSession | undefined) ?? null;
+
+  const writeSession = async (session: StoredSession | null) => {
+    if (session) {
+      await db.settings.put({ key: sessionSettingKey, value: session });
+    } else {
+      await db.settings.delete(sessionSettingKey);
+    }
+    for (const listener of listeners) {
+      listener(session ? { user: session.user } : null);
+    }
+  };
+
+  const request = async <T>(path: string, body?: unknown): Promise<AdapterResult<T>> => {
+    const session = await readSession();
+    try {
+      const response = await fetch(`${baseUrl}${path}`, {
+        method: body === undefined ? 'GET' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(session ? { Authorization: `Bearer ${session.token}` } : {}),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const payload = (await response.json().catch(() => null)) as { message?: string; code?: string } | null;
+      if (!response.ok) {
+        return {
+          data: null,
+          error: { message: payload?.message ?? response.statusText, code: payload?.code, status: response.status },
+        };
+      }
+      return { data: payload as T, error: null };
+    } catch (error) {
+      return { data: null, error: { message: error instanceof Error ? error.message : String(error), status: 0 } };
+    }
+  };
+
+  const createChannel: ChangeChannelFactory = () => {
+    const handlers = new Map<SyncTable, (change: RealtimeChange) => void>();
+    let source: EventSource | null = null;
+    let closed = false;
+
+    return {
+      listen: (table, handler) => {
+        handlers.set(table, handler);
+      },
+      subscribe: (onStatus) => {
+        void readSession().then((session) => {
+          if (closed) {
+            return;
+          }
+          if (!session) {
+            onStatus('CHANNEL_ERROR');
+            return;
+          }
+          source = new EventSource(`${baseUrl}/changes?access_token=${encodeURIComponent(session.token)}`);
+          source.onopen = () => onStatus('SUBSCRIBED');
+          source.onerror = () => onStatus('CHANNEL_ERROR');
+          source.onmessage = (message: MessageEvent<string>) => {
+            const change = JSON.parse(message.data) as RealtimeChange;
+            handlers.get(change.table)?.(change);
+          };
+        });
+      },
+      close: () => {
+        closed = true;
+        source?.close();
+      },
+    };
+  };
+
+  const authenticate = async (path: string, body: Record<string, string>) => {
+    const { data, error } = await request<StoredSession>(path, body);
+    if (error) {
+      return { error: error.message };
+    }
+    await writeSession(data);
+    return { error: null };
+  };
+
+  return {
+    kind: 'http',
+    fetchRows: (table, ids) => request<RemoteRow[]>(`/rows/${table}/fetch`, { ids }),
+    fetchChanges: (table, after, limit, withCount) => {
+      const params = new URLSearchParams({ limit: String(limit) });
+      if (after) {
+        params.set('since', after.updatedAt);
+        params.set('after_id', after.id);
+      }
+      if (withCount) {
+        params.set('count', '1');
+      }
+      return request<ChangePage>(`/rows/${table}?${params.toString()}`);
+    },
+    upsertRows: (table, rows) => request<RemoteRow[]>(`/rows/${table}`, { rows }),
+    deleteRows: async (table, ids) => {
+      const { error } = await request<unknown>(`/rows/${table}/delete`, { ids });
+      return error ? { data: null, error } : { data: null, error: null };
+    },
+    createChannel,
+    auth: {
+      getSession: async () => {
+        const session = await readSession();
+        return session ? { user: session.user } : null;
+      },
+      onSessionChange: (handler) => {
+        listeners.add(handler);
+        return () => {
+          listeners.delete(handler);
+        };
+      },
+      signIn: (email, password) => authenticate('/auth/signin', { email, password }),
+      signUp: (email, password, displayName) => authenticate('/auth/signup', { email, password, displayName }),
+      signOut: async () => {
+        await request<unknown>('/auth/signout', {});
+        await writeSession(null);
+      },
+    },
+  };
+};
@@ -0,0 +1,16 @@
+import { supabase } from '../supabase';
+import { createHttpAdapter } from './httpAdapter';
+import { createSupabaseAdapter } from './supabaseAdapter';
+import type { SyncAdapter } from './types';
+
+const syncBackend = import.meta.env.VITE_SYNC_BACKEND as string | undefined;
+const syncServerUrl = import.meta.env.VITE_SYNC_SERVER_URL as string | undefined;
+
+export const syncAdapter: SyncAdapter | null =
+  syncBackend === 'http' && syncServerUrl
+    ? createHttpAdapter(syncServerUrl.replace(/\/$/, ''))
+    : supabase
+      ? createSupabaseAdapter(supabase)
+      : null;
+
+export const isSyncEnabled = syncAdapter !== null;
@@ -0,0 +1,98 @@
+import type { PostgrestError, Session, SupabaseClient } from '@supabase/supabase-js';
+import { createId, nowIso } from '../db';
+import type { ChangeChannelFactory, RealtimeStatus } from '../realtime';
+import type { SyncTable } from '../types';
+import type { AdapterResult, AuthSession, RemoteRow, SyncAdapter } from './types';
+
+const tombstoneTables: SyncTable[] = ['tags', 'categories', 'items', 'actions', 'subtasks', 'events'];
+
+const toResult = <T>(data: T, error: PostgrestError | null, status: number): AdapterResult<T> =>
+  error ? { data: null, error: { message: error.message, code: error.code, status } } : { data, error: null };
+
+const toAuthSession = (session: Session | null): AuthSession | null =>
+  session ? { user: { id: session.user.id, email: session.user.email ?? null } } : null;
+
+const channelFactory =
+  (client: SupabaseClient): ChangeChannelFactory =>
+  () => {
+    const channel = client.channel(`planest-changes-${createId()}`);
+    return {
+      listen: (table, handler) => {
+        channel.on('postgres_changes', { event: '*', schema: 'public', table }, (payload) => {
+          const isDelete = payload.eventType === 'DELETE';
+          handler({
+            table,
+            eventType: payload.eventType,
+            row: (isDelete ? payload.old : payload.new) as RemoteRow,
+            committedAt: payload.commit_timestamp,
+          });
+        });
+      },
+      subscribe: (onStatus) => {
+        channel.subscribe((status) => onStatus(status as RealtimeStatus));
+      },
+      close: () => {
+        void client.removeChannel(channel);
+      },
+    };
+  };
+
+export const createSupabaseAdapter = (client: SupabaseClient): SyncAdapter => ({
+  kind: 'supabase',
+  fetchRows: async (table, ids) => {
+    const { data, error, status } = await client.from(table).select('*').in('id', ids);
+    return toResult((data ?? []) as RemoteRow[], error, status);
+  },
+  fetchChanges: async (table, after, limit, withCount) => {
+    // An exact count scans every matching row, so only the first page asks, for an estimate.
+    let query = client
+      .from(table)
+      .select('*', withCount ? { count: 'estimated' } : undefined)
+      .order('updated_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(limit);
+    if (after) {
+      query = query.or(
+        `updated_at.gt."${after.updatedAt}",and(updated_at.eq."${after.updatedAt}",id.gt.${after.id})`,
+      );
+    }
+    const { data, error, status, count } = await query;
+    return toResult({ rows: (data ?? []) as RemoteRow[], remaining: count }, error, status);
+  },
+  upsertRows: async (table, rows) => {
+    const { data, error, status } = await client.from(table).upsert(rows).select();
+    return toResult((data ?? []) as RemoteRow[], error, status);
+  },
+  deleteRows: async (table, ids) => {
+    const { error, status } = tombstoneTables.includes(table)
+      ? await client.from(table).update({ deleted_at: nowIso() }).in('id', ids)
+      : await client.from(table).delete().in('id', ids);
+    return toResult(null, error, status);
+  },
+  createChannel: channelFactory(client),
+  auth: {
+    getSession: async () => {
+      const { data } = await client.auth.getSession();
+      return toAuthSession(data.session);
+    },
+    onSessionChange: (handler) => {
+      const { data } = client.auth.onAuthStateChange((_event, session) => handler(toAuthSession(session)));
+      return () => data.subscription.unsubscribe();
+    },
+    signIn: async (email, password) => {
+      const { error } = await client.auth.signInWithPassword({ email, password });
+      return { error: error?.message ?? null };
+    },
+    signUp: async (email, password, displayName) => {
+      const { error } = await client.auth.signUp({
+        email,
+        password,
+        options: { data: { display_name: displayName } },
+      });
+      return { error: error?.message ?? null };
+    },
+    signOut: async () => {
+      await client.auth.signOut();
+    },
+  },
+});
@@ -0,0 +1,61 @@
+import type { ChangeChannelFactory } from '../realtime';
+import type { SyncTable } from '../types';
+
+export type RemoteRow = {
+  id: string;
+  updated_at: string;
+  deleted_at?: string | null;
+  [column: string]: unknown;
+};
+
+export type SyncFailure = {
+  message: string;
+  code?: string;
+  status: number;
+};
+
+// Position in the (updated_at, id) order the pull pages through.
+export type ChangeCursor = {
+  updatedAt: string;
+  id: string;
+};
+
+// remaining is only counted when asked for, on the first page of a pull.
+export type ChangePage = {
+  rows: RemoteRow[];
+  remaining: number | null;
+};
+
+export type AdapterResult<T> = { data: T; error: null } | { data: null; error: SyncFailure };
+
+export type AuthSession = {
+  user: {
+    id: string;
+    email: string | null;
+  };
+};
+
+export type AuthAdapter = {
+  getSession: () => Promise<AuthSession | null>;
+  onSessionChange: (handler: (session: AuthSession | null) => void) => () => void;
+  signIn: (email: string, password: string) => Promise<{ error: string | null }>;
+  signUp: (email: string, password: string, displayName: string) => Promise<{ error: string | null }>;
+  signOut: () => Promise<void>;
+};
+
+// Everything the sync engine needs from a backend. Rows travel in the remote snake_case
+// shape; deleteRows leaves a tombstone wherever the backend supports one.
+export type SyncAdapter = {
+  kind: 'supabase' | 'http';
+  fetchRows: (table: SyncTable, ids: string[]) => Promise<AdapterResult<RemoteRow[]>>;
+  fetchChanges: (
+    table: SyncTable,
+    after: ChangeCursor | null,
+    limit: number,
+    withCount: boolean,
+  ) => Promise<AdapterResult<ChangePage>>;
+  upsertRows: (table: SyncTable, rows: Array<Record<string, unknown>>) => Promise<AdapterResult<RemoteRow[]>>;
+  deleteRows: (table: SyncTable, ids: string[]) => Promise<AdapterResult<null>>;
+  createChannel: ChangeChannelFactory;
+  auth: AuthAdapter;
+};
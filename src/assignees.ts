@@ -0,0 +1,11 @@
+import type { PlanAction } from './types';
+
+// A rotation hands the action to whoever's turn it is; otherwise the explicit assignees own it.
+export const actionAssigneeIds = (action: PlanAction): string[] => {
+  if (action.rotationUserIds.length > 0) {
+    return action.assigneeUserId ? [action.assigneeUserId] : [];
+  }
+  return action.assigneeUserIds;
+};
+
+export const isAssignedTo = (action: PlanAction, userId: string): boolean => actionAssigneeIds(action).includes(userId);
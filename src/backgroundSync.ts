@@ -0,0 +1,42 @@
+import type { SyncTable } from './types';
+
+export const backgroundSyncTag = 'planest-sync';
+export const periodicSyncTag = 'planest-periodic-sync';
+const periodicSyncIntervalMs = 60 * 60 * 1000;
+
+export type SyncedMessage = {
+  type: 'PLANEST_SYNCED';
+  payload: { tables: SyncTable[]; syncedAt: string };
+};
+
+type SyncCapableRegistration = ServiceWorkerRegistration & {
+  sync?: { register: (tag: string) => Promise<void> };
+  periodicSync?: { register: (tag: string, options: { minInterval: number }) => Promise<void> };
+};
+
+const getRegistration = async (): Promise<SyncCapableRegistration | null> => {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) {
+    return null;
+  }
+  return (await navigator.serviceWorker.getRegistration()) ?? null;
+};
+
+// Asks the browser to wake the service worker once the device is back online, even if
+// every tab has been closed by then.
+export const requestBackgroundSync = async (): Promise<void> => {
+  const registration = await getRegistration();
+  try {
+    await registration?.sync?.register(backgroundSyncTag);
+  } catch {
+    // Unsupported or not allowed: the queue is flushed the next time the app is open.
+  }
+};
+
+export const registerPeriodicSync = async (): Promise<void> => {
+  const registration = await getRegistration();
+  try {
+    await registration?.periodicSync?.register(periodicSyncTag, { minInterval: periodicSyncIntervalMs });
+  } catch {
+    // Periodic sync is only granted to installed PWAs on some browsers.
+  }
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { decideConflict, diffFields, mergeRows } from './conflicts';
+
+const base = { id: 'a', title: 'Spesa', notes: '', percentComplete: 0, updatedAt: '2026-10-01T10:00:00.000Z' };
+
+const createCopyId = () => 'copy';
+
+describe('mergeRows', () => {
+  it('takes each field from the side that changed it', () => {
+    const local = { ...base, title: 'Spesa grande' };
+    const remote = { ...base, percentComplete: 50 };
+
+    expect(mergeRows(base, local, remote)).toEqual({
+      merged: { ...base, title: 'Spesa grande', percentComplete: 50 },
+      clashes: [],
+    });
+  });
+
+  it('keeps the local value of a field both sides changed and reports it', () => {
+    const local = { ...base, title: 'Spesa grande' };
+    const remote = { ...base, title: 'Spesa piccola' };
+
+    expect(mergeRows(base, local, remote)).toEqual({ merged: local, clashes: ['title'] });
+  });
+
+  it('does not count the same change made on both sides as a clash', () => {
+    const local = { ...base, title: 'Spesa grande', updatedAt: '2026-10-01T11:00:00.000Z' };
+    const remote = { ...base, title: 'Spesa grande', updatedAt: '2026-10-01T12:00:00.000Z' };
+
+    expect(mergeRows(base, local, remote).clashes).toEqual([]);
+  });
+});
+
+describe('diffFields', () => {
+  it('ignores the timestamps', () => {
+    expect(diffFields({ ...base, createdAt: 'x' }, { ...base, updatedAt: 'y', createdAt: 'z', notes: 'n' })).toEqual(['notes']);
+  });
+});
+
+describe('decideConflict', () => {
+  it('keeps the remote row when the two sides already agree', () => {
+    const decision = decideConflict('actions', 'merge', { base, local: base, remote: { ...base }, createCopyId });
+    expect(decision).toEqual({ outcome: 'keep-remote', clashes: [] });
+  });
+
+  it('compares last-writer-wins edits on the server clock', () => {
+    // The device clock runs 10 minutes slow: its 10:55 edit happened at 11:05 server time,
+    // after the remote edit stamped 11:00.
+    const local = { ...base, title: 'Locale', updatedAt: '2026-10-01T10:55:00.000Z' };
+    const remote = { ...base, title: 'Remota', updatedAt: '2026-10-01T11:00:00.000Z' };
+    const tenMinutes = 10 * 60_000;
+
+    expect(decideConflict('tags', 'last-writer-wins', { base, local, remote, createCopyId }).outcome).toBe('keep-remote');
+    expect(
+      decideConflict('tags', 'last-writer-wins', { base, local, remote, createCopyId, clockOffsetMs: tenMinutes }),
+    ).toEqual({ outcome: 'push', row: local, clashes: ['title'] });
+  });
+
+  it('leaves a manual conflict to the user', () => {
+    const local = { ...base, title: 'Locale' };
+    const remote = { ...base, title: 'Remota' };
+    expect(decideConflict('actions', 'manual', { base, local, remote, createCopyId })).toEqual({
+      outcome: 'keep-remote',
+      clashes: ['title'],
+    });
+  });
+
+  it('keeps both versions of an action as a renamed copy', () => {
+    const local = { ...base, title: 'Locale' };
+    const remote = { ...base, title: 'Remota' };
+    expect(decideConflict('actions', 'keep-both', { base, local, remote, createCopyId })).toEqual({
+      outcome: 'push-copy',
+      copy: { ...local, id: 'copy', title: 'Locale (copia in conflitto)' },
+      clashes: [],
+    });
+  });
+
+  it('merges tables that cannot hold a copy instead of duplicating them', () => {
+    const local = { ...base, title: 'Locale' };
+    const remote = { ...base, notes: 'Remota' };
+    expect(decideConflict('tags', 'keep-both', { base, local, remote, createCopyId })).toEqual({
+      outcome: 'push',
+      row: { ...base, title: 'Locale', notes: 'Remota' },
+      clashes: [],
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { db } from './db';
+import type { ConflictPolicy, SyncTable } from './types';
+
+type Row = Record<string, unknown>;
+
+export type ConflictDecision =
+  | { outcome: 'push'; row: Row; clashes: string[] }
+  | { outcome: 'keep-remote'; clashes: string[] }
+  | { outcome: 'push-copy'; copy: Row; clashes: string[] };
+
+const conflictPolicySettingKey = 'conflictPolicies';
+const ignoredFields = new Set(['createdAt', 'updatedAt']);
+
+export const defaultConflictPolicies: Record<SyncTable, ConflictPolicy> = {
+  tags: 'last-writer-wins',
+  categories: 'last-writer-wins',
+  items: 'last-writer-wins',
+  actions: 'merge',
+  subtasks: 'merge',
+  events: 'merge',
+  profiles: 'last-writer-wins',
+};
+
+export const loadConflictPolicies = async (): Promise<Record<SyncTable, ConflictPolicy>> => {
+  const stored = await db.settings.get(conflictPolicySettingKey);
+  return { ...defaultConflictPolicies, ...((stored?.value as Partial<Record<SyncTable, ConflictPolicy>>) ?? {}) };
+};
+
+export const saveConflictPolicy = async (table: SyncTable, policy: ConflictPolicy): Promise<void> => {
+  const current = await loadConflictPolicies();
+  await db.settings.put({ key: conflictPolicySettingKey, value: { ...current, [table]: policy } });
+};
+
+const sameValue = (left: unknown, right: unknown): boolean => JSON.stringify(left ?? null) === JSON.stringify(right ?? null);
+
+export const diffFields = (left: Row, right: Row): string[] =>
+  Array.from(new Set([...Object.keys(left), ...Object.keys(right)])).filter(
+    (field) => !ignoredFields.has(field) && !sameValue(left[field], right[field]),
+  );
+
+// Three-way merge against the last server version both sides started from: a field
+// changed on one side only takes that side, a field changed on both sides is a clash
+// and keeps the local value.
+export const mergeRows = (base: Row, local: Row, remote: Row): { merged: Row; clashes: string[] } => {
+  const merged: Row = { ...remote };
+  const clashes: string[] = [];
+
+  for (const field of Array.from(new Set([...Object.keys(local), ...Object.keys(remote)]))) {
+    if (ignoredFields.has(field)) {
+      continue;
+    }
+    const localChanged = !sameValue(base[field], local[field]);
+    const remoteChanged = !sameValue(base[field], remote[field]);
+    if (!localChanged) {
+      continue;
+    }
+    if (remoteChanged && !sameValue(local[field], remote[field])) {
+      clashes.push(field);
+    }
+    merged[field] = local[field];
+  }
+
+  return { merged, clashes };
+};
+
+const timeOf = (value: unknown): number => {
+  const time = Date.parse(String(value ?? ''));
+  return Number.isNaN(time) ? 0 : time;
+};
+
+// A local updatedAt comes from the device clock and a remote one from the server, so for
+// last-writer-wins the local edit is moved onto the server clock (clockOffsetMs is server
+// time minus device time) before the two are compared.
+export const decideConflict = (
+  table: SyncTable,
+  policy: ConflictPolicy,
+  {
+    base,
+    local,
+    remote,
+    createCopyId,
+    clockOffsetMs = 0,
+  }: { base: Row; local: Row; remote: Row; createCopyId: () => string; clockOffsetMs?: number },
+): ConflictDecision => {
+  const differing = diffFields(local, remote);
+  if (differing.length === 0) {
+    return { outcome: 'keep-remote', clashes: [] };
+  }
+
+  if (policy === 'manual') {
+    return { outcome: 'keep-remote', clashes: differing };
+  }
+
+  if (policy === 'last-writer-wins') {
+    const localWins = timeOf(local.updatedAt) + clockOffsetMs >= timeOf(remote.updatedAt);
+    return localWins ? { outcome: 'push', row: local, clashes: differing } : { outcome: 'keep-remote', clashes: differing };
+  }
+
+  if (policy === 'keep-both' && (table === 'actions' || table === 'events')) {
+    return {
+      outcome: 'push-copy',
+      copy: { ...local, id: createCopyId(), title: `${String(local.title ?? '')} (copia in conflitto)` },
+      clashes: [],
+    };
+  }
+
+  const { merged, clashes } = mergeRows(base, local, remote);
+  return { outcome: 'push', row: merged, clashes };
+};
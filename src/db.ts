@@ -1,12 +1,41 @@
 import Dexie, { type Table } from 'dexie';
-import type { CalendarEvent, Mutation, PlanAction, PriorityCategory, UserProfile } from './types';
+import type {
+  ActionSubtask,
+  CalendarEvent,
+  DeadLetter,
+  Mutation,
+  PlanAction,
+  PlanItem,
+  PlanTag,
+  PriorityCategory,
+  PullSeen,
+  QuarantinedRow,
+  Setting,
+  SyncBase,
+  SyncConflict,
+  SyncCursor,
+  SyncLogEntry,
+  SyncTable,
+  UserProfile,
+} from './types';
 
 class PlanestDB extends Dexie {
+  tags!: Table<PlanTag, string>;
   categories!: Table<PriorityCategory, string>;
+  items!: Table<PlanItem, string>;
+  subtasks!: Table<ActionSubtask, string>;
   actions!: Table<PlanAction, string>;
   events!: Table<CalendarEvent, string>;
   profiles!: Table<UserProfile, string>;
   mutations!: Table<Mutation, number>;
+  syncState!: Table<SyncCursor, SyncTable>;
+  syncBase!: Table<SyncBase, [SyncTable, string]>;
+  conflicts!: Table<SyncConflict, number>;
+  settings!: Table<Setting, string>;
+  deadLetters!: Table<DeadLetter, number>;
+  syncLog!: Table<SyncLogEntry, number>;
+  pullSeen!: Table<PullSeen, [SyncTable, string]>;
+  quarantine!: Table<QuarantinedRow, [SyncTable, string]>;
 
   constructor() {
     super('planest_db');
@@ -35,6 +64,496 @@ class PlanestDB extends Dexie {
       profiles: 'id, displayName, updatedAt',
       mutations: '++id, table, op, createdAt',
     });
+
+    this.version(4).stores({
+      categories: 'id, ownerUserId, owner, updatedAt',
+      actions: 'id, categoryId, dueDate, updatedAt',
+      events: 'id, categoryId, startsAt, updatedAt',
+      profiles: 'id, displayName, updatedAt',
+      mutations: '++id, table, op, createdAt',
+      syncState: 'table',
+    });
+
+    this.version(5)
+      .stores({
+        categories: 'id, ownerUserId, owner, updatedAt',
+        actions: 'id, categoryId, dueDate, updatedAt',
+        events: 'id, categoryId, startsAt, updatedAt',
+        profiles: 'id, displayName, updatedAt',
+        mutations: '++id, table, op, createdAt',
+        syncState: 'table',
+        syncBase: '[table+id]',
+        conflicts: '++id, [table+rowId], detectedAt',
+        settings: 'key',
+      })
+      .upgrade((tx) => tx.table('syncState').clear());
+
+    this.version(6).stores({
+      categories: 'id, ownerUserId, owner, updatedAt',
+      actions: 'id, categoryId, dueDate, updatedAt',
+      events: 'id, categoryId, startsAt, updatedAt',
+      profiles: 'id, displayName, updatedAt',
+      mutations: '++id, table, op, createdAt',
+      syncState: 'table',
+      syncBase: '[table+id]',
+      conflicts: '++id, [table+rowId], detectedAt',
+      settings: 'key',
+      deadLetters: '++id, failedAt',
+    });
+
+    this.version(7).stores({
+      categories: 'id, ownerUserId, owner, updatedAt',
+      actions: 'id, categoryId, dueDate, updatedAt',
+      events: 'id, categoryId, startsAt, updatedAt',
+      profiles: 'id, displayName, updatedAt',
+      mutations: '++id, table, op, createdAt',
+      syncState: 'table',
+      syncBase: '[table+id]',
+      conflicts: '++id, [table+rowId], detectedAt',
+      settings: 'key',
+      deadLetters: '++id, failedAt',
+      syncLog: '++id, startedAt',
+    });
+
+    this.version(8).stores({
+      categories: 'id, ownerUserId, owner, updatedAt',
+      actions: 'id, categoryId, dueDate, updatedAt',
+      events: 'id, categoryId, startsAt, updatedAt',
+      profiles: 'id, displayName, updatedAt',
+      mutations: '++id, table, op, createdAt',
+      syncState: 'table',
+      syncBase: '[table+id]',
+      conflicts: '++id, [table+rowId], detectedAt',
+      settings: 'key',
+      deadLetters: '++id, failedAt',
+      syncLog: '++id, startedAt',
+      pullSeen: '[table+id], table',
+    });
+
+    this.version(9).stores({
+      categories: 'id, ownerUserId, owner, updatedAt',
+      actions: 'id, categoryId, dueDate, updatedAt',
+      events: 'id, categoryId, startsAt, updatedAt',
+      profiles: 'id, displayName, updatedAt',
+      mutations: '++id, table, op, createdAt',
+      syncState: 'table',
+      syncBase: '[table+id]',
+      conflicts: '++id, [table+rowId], detectedAt',
+      settings: 'key',
+      deadLetters: '++id, failedAt',
+      syncLog: '++id, startedAt',
+      pullSeen: '[table+id], table',
+      quarantine: '[table+rowId], receivedAt',
+    });
+
+    this.version(10)
+      .stores({
+        categories: 'id, ownerUserId, owner, updatedAt',
+        items: 'id, categoryId, updatedAt',
+        actions: 'id, categoryId, itemId, dueDate, updatedAt',
+        events: 'id, categoryId, startsAt, updatedAt',
+        profiles: 'id, displayName, updatedAt',
+        mutations: '++id, table, op, createdAt',
+        syncState: 'table',
+        syncBase: '[table+id]',
+        conflicts: '++id, [table+rowId], detectedAt',
+        settings: 'key',
+        deadLetters: '++id, failedAt',
+        syncLog: '++id, startedAt',
+        pullSeen: '[table+id], table',
+        quarantine: '[table+rowId], receivedAt',
+      })
+      .upgrade(async (tx) => {
+        // Existing actions move under the default item of their priority. Pending action
+        // upserts are queued again behind their new item so the push keeps FK order.
+        const timestamp = nowIso();
+        const categoryIds = new Set<string>();
+        await tx
+          .table<PlanAction>('actions')
+          .toCollection()
+          .modify((action) => {
+            action.itemId = defaultItemIdFor(action.categoryId);
+            categoryIds.add(action.categoryId);
+          });
+
+        const pendingActions = await tx
+          .table<Mutation, number>('mutations')
+          .filter((mutation) => mutation.table === 'actions' && mutation.op === 'upsert')
+          .toArray();
+        const pendingCategoryIds = new Set(pendingActions.map((mutation) => String(mutation.payload.categoryId)));
+        for (const categoryId of pendingCategoryIds) {
+          categoryIds.add(categoryId);
+        }
+
+        const items = Array.from(categoryIds, (categoryId) => ({
+          id: defaultItemIdFor(categoryId),
+          categoryId,
+          title: defaultItemTitle,
+          createdAt: timestamp,
+          updatedAt: timestamp,
+        }));
+        await tx.table<PlanItem>('items').bulkPut(items);
+
+        await tx.table<Mutation, number>('mutations').bulkDelete(pendingActions.map((mutation) => mutation.id as number));
+        await tx.table<Mutation, number>('mutations').bulkAdd([
+          ...items
+            .filter((item) => pendingCategoryIds.has(item.categoryId))
+            .map((item): Mutation => ({ table: 'items', op: 'upsert', payload: item, createdAt: timestamp })),
+          ...pendingActions.map((mutation): Mutation => ({
+            table: mutation.table,
+            op: mutation.op,
+            payload: { ...mutation.payload, itemId: defaultItemIdFor(String(mutation.payload.categoryId)) },
+            createdAt: mutation.createdAt,
+          })),
+        ]);
+        await tx.table('syncState').clear();
+      });
+
+    this.version(11)
+      .stores({
+        categories: 'id, ownerUserId, owner, updatedAt',
+        items: 'id, categoryId, updatedAt',
+        actions: 'id, categoryId, itemId, dueDate, updatedAt',
+        events: 'id, categoryId, startsAt, updatedAt',
+        profiles: 'id, displayName, updatedAt',
+        mutations: '++id, table, op, createdAt',
+        syncState: 'table',
+        syncBase: '[table+id]',
+        conflicts: '++id, [table+rowId], detectedAt',
+        settings: 'key',
+        deadLetters: '++id, failedAt',
+        syncLog: '++id, startedAt',
+        pullSeen: '[table+id], table',
+        quarantine: '[table+rowId], receivedAt',
+      })
+      .upgrade(async (tx) => {
+        await tx
+          .table<PlanAction>('actions')
+          .toCollection()
+          .modify((action) => {
+            action.weight ??= 1;
+            action.isCancelled ??= false;
+          });
+      });
+
+    this.version(12)
+      .stores({
+        categories: 'id, ownerUserId, owner, updatedAt',
+        items: 'id, categoryId, updatedAt',
+        actions: 'id, categoryId, itemId, dueDate, updatedAt',
+        subtasks: 'id, actionId, updatedAt',
+        events: 'id, categoryId, startsAt, updatedAt',
+        profiles: 'id, displayName, updatedAt',
+        mutations: '++id, table, op, createdAt',
+        syncState: 'table',
+        syncBase: '[table+id]',
+        conflicts: '++id, [table+rowId], detectedAt',
+        settings: 'key',
+        deadLetters: '++id, failedAt',
+        syncLog: '++id, startedAt',
+        pullSeen: '[table+id], table',
+        quarantine: '[table+rowId], receivedAt',
+      })
+      .upgrade(async (tx) => {
+        await tx
+          .table<PlanAction>('actions')
+          .toCollection()
+          .modify((action) => {
+            action.progressFromSubtasks ??= false;
+          });
+      });
+
+    this.version(13)
+      .stores({
+        categories: 'id, ownerUserId, owner, updatedAt',
+        items: 'id, categoryId, updatedAt',
+        actions: 'id, categoryId, itemId, dueDate, updatedAt',
+        subtasks: 'id, actionId, updatedAt',
+        events: 'id, categoryId, startsAt, updatedAt',
+        profiles: 'id, displayName, updatedAt',
+        mutations: '++id, table, op, createdAt',
+        syncState: 'table',
+        syncBase: '[table+id]',
+        conflicts: '++id, [table+rowId], detectedAt',
+        settings: 'key',
+        deadLetters: '++id, failedAt',
+        syncLog: '++id, startedAt',
+        pullSeen: '[table+id], table',
+        quarantine: '[table+rowId], receivedAt',
+      })
+      .upgrade(async (tx) => {
+        await tx
+          .table<PlanAction>('actions')
+          .toCollection()
+          .modify((action) => {
+            action.blockedByIds ??= [];
+          });
+      });
+
+    this.version(14)
+      .stores({
+        categories: 'id, ownerUserId, owner, updatedAt',
+        items: 'id, categoryId, updatedAt',
+        actions: 'id, categoryId, itemId, seriesId, dueDate, updatedAt',
+        subtasks: 'id, actionId, updatedAt',
+        events: 'id, categoryId, startsAt, updatedAt',
+        profiles: 'id, displayName, updatedAt',
+        mutations: '++id, table, op, createdAt',
+        syncState: 'table',
+        syncBase: '[table+id]',
+        conflicts: '++id, [table+rowId], detectedAt',
+        settings: 'key',
+        deadLetters: '++id, failedAt',
+        syncLog: '++id, startedAt',
+        pullSeen: '[table+id], table',
+        quarantine: '[table+rowId], receivedAt',
+      })
+      .upgrade(async (tx) => {
+        await tx
+          .table<PlanAction>('actions')
+          .toCollection()
+          .modify((action) => {
+            action.recurrenceRule ??= null;
+            action.repeatAfterDays ??= null;
+            action.seriesId ??= null;
+          });
+      });
+
+    this.version(15)
+      .stores({
+        categories: 'id, ownerUserId, owner, updatedAt',
+        items: 'id, categoryId, updatedAt',
+        actions: 'id, categoryId, itemId, seriesId, dueDate, updatedAt',
+        subtasks: 'id, actionId, updatedAt',
+        events: 'id, categoryId, startsAt, updatedAt',
+        profiles: 'id, displayName, updatedAt',
+        mutations: '++id, table, op, createdAt',
+        syncState: 'table',
+        syncBase: '[table+id]',
+        conflicts: '++id, [table+rowId], detectedAt',
+        settings: 'key',
+        deadLetters: '++id, failedAt',
+        syncLog: '++id, startedAt',
+        pullSeen: '[table+id], table',
+        quarantine: '[table+rowId], receivedAt',
+      })
+      .upgrade(async (tx) => {
+        await tx
+          .table<PlanAction>('actions')
+          .toCollection()
+          .modify((action) => {
+            action.rotationUserIds ??= [];
+            action.assigneeUserId ??= null;
+          });
+        await tx
+          .table<CalendarEvent>('events')
+          .toCollection()
+          .modify((event) => {
+            event.rotationUserIds ??= [];
+            event.rotationOffset ??= 0;
+          });
+      });
+
+    // Same one-off move as supabase/schema.sql: tagged users become the first assignees.
+    this.version(16)
+      .stores({
+        categories: 'id, ownerUserId, owner, updatedAt',
+        items: 'id, categoryId, updatedAt',
+        actions: 'id, categoryId, itemId, seriesId, *assigneeUserIds, dueDate, updatedAt',
+        subtasks: 'id, actionId, updatedAt',
+        events: 'id, categoryId, startsAt, updatedAt',
+        profiles: 'id, displayName, updatedAt',
+        mutations: '++id, table, op, createdAt',
+        syncState: 'table',
+        syncBase: '[table+id]',
+        conflicts: '++id, [table+rowId], detectedAt',
+        settings: 'key',
+        deadLetters: '++id, failedAt',
+        syncLog: '++id, startedAt',
+        pullSeen: '[table+id], table',
+        quarantine: '[table+rowId], receivedAt',
+      })
+      .upgrade(async (tx) => {
+        await tx
+          .table<PlanAction>('actions')
+          .toCollection()
+          .modify((action) => {
+            action.assigneeUserIds ??= [...action.mentionUserIds];
+          });
+      });
+
+    this.version(17)
+      .stores({
+        tags: 'id, name, updatedAt',
+        categories: 'id, ownerUserId, owner, *tagIds, updatedAt',
+        items: 'id, categoryId, updatedAt',
+        actions: 'id, categoryId, itemId, seriesId, *assigneeUserIds, *tagIds, dueDate, updatedAt',
+        subtasks: 'id, actionId, updatedAt',
+        events: 'id, categoryId, *tagIds, startsAt, updatedAt',
+        profiles: 'id, displayName, updatedAt',
+        mutations: '++id, table, op, createdAt',
+        syncState: 'table',
+        syncBase: '[table+id]',
+        conflicts: '++id, [table+rowId], detectedAt',
+        settings: 'key',
+        deadLetters: '++id, failedAt',
+        syncLog: '++id, startedAt',
+        pullSeen: '[table+id], table',
+        quarantine: '[table+rowId], receivedAt',
+      })
+      .upgrade(async (tx) => {
+        for (const table of ['categories', 'actions', 'events']) {
+          await tx
+            .table<{ tagIds?: string[] }>(table)
+            .toCollection()
+            .modify((row) => {
+              row.tagIds ??= [];
+            });
+        }
+      });
+
+    this.version(18)
+      .stores({
+        tags: 'id, name, updatedAt',
+        categories: 'id, ownerUserId, owner, *tagIds, updatedAt',
+        items: 'id, categoryId, updatedAt',
+        actions: 'id, categoryId, itemId, seriesId, *assigneeUserIds, *tagIds, dueDate, updatedAt',
+        subtasks: 'id, actionId, updatedAt',
+        events: 'id, categoryId, seriesEventId, *tagIds, startsAt, updatedAt',
+        profiles: 'id, displayName, updatedAt',
+        mutations: '++id, table, op, createdAt',
+        syncState: 'table',
+        syncBase: '[table+id]',
+        conflicts: '++id, [table+rowId], detectedAt',
+        settings: 'key',
+        deadLetters: '++id, failedAt',
+        syncLog: '++id, startedAt',
+        pullSeen: '[table+id], table',
+        quarantine: '[table+rowId], receivedAt',
+      })
+      .upgrade(async (tx) => {
+        await tx
+          .table<CalendarEvent>('events')
+          .toCollection()
+          .modify((event) => {
+            event.seriesEventId ??= null;
+            event.recurrenceId ??= null;
+          });
+      });
+
+    this.version(19)
+      .stores({
+        tags: 'id, name, updatedAt',
+        categories: 'id, ownerUserId, owner, *tagIds, updatedAt',
+        items: 'id, categoryId, updatedAt',
+        actions: 'id, categoryId, itemId, seriesId, *assigneeUserIds, *tagIds, dueDate, updatedAt',
+        subtasks: 'id, actionId, updatedAt',
+        events: 'id, categoryId, seriesEventId, seriesGroupId, *tagIds, startsAt, updatedAt',
+        profiles: 'id, displayName, updatedAt',
+        mutations: '++id, table, op, createdAt',
+        syncState: 'table',
+        syncBase: '[table+id]',
+        conflicts: '++id, [table+rowId], detectedAt',
+        settings: 'key',
+        deadLetters: '++id, failedAt',
+        syncLog: '++id, startedAt',
+        pullSeen: '[table+id], table',
+        quarantine: '[table+rowId], receivedAt',
+      })
+      .upgrade(async (tx) => {
+        await tx
+          .table<CalendarEvent>('events')
+          .toCollection()
+          .modify((event) => {
+            event.seriesGroupId ??= null;
+          });
+      });
+
+    this.version(20)
+      .stores({
+        tags: 'id, name, updatedAt',
+        categories: 'id, ownerUserId, owner, *tagIds, updatedAt',
+        items: 'id, categoryId, updatedAt',
+        actions: 'id, categoryId, itemId, seriesId, *assigneeUserIds, *tagIds, dueDate, updatedAt',
+        subtasks: 'id, actionId, updatedAt',
+        events: 'id, categoryId, seriesEventId, seriesGroupId, *tagIds, startsAt, updatedAt',
+        profiles: 'id, displayName, updatedAt',
+        mutations: '++id, table, op, createdAt',
+        syncState: 'table',
+        syncBase: '[table+id]',
+        conflicts: '++id, [table+rowId], detectedAt',
+        settings: 'key',
+        deadLetters: '++id, failedAt',
+        syncLog: '++id, startedAt',
+        pullSeen: '[table+id], table',
+        quarantine: '[table+rowId], receivedAt',
+      })
+      .upgrade(async (tx) => {
+        await tx
+          .table<CalendarEvent>('events')
+          .toCollection()
+          .modify((event) => {
+            event.timeZone ??= null;
+          });
+      });
+
+    this.version(21)
+      .stores({
+        tags: 'id, name, updatedAt',
+        categories: 'id, ownerUserId, owner, *tagIds, updatedAt',
+        items: 'id, categoryId, updatedAt',
+        actions: 'id, categoryId, itemId, seriesId, *assigneeUserIds, *tagIds, dueDate, updatedAt',
+        subtasks: 'id, actionId, updatedAt',
+        events: 'id, categoryId, seriesEventId, seriesGroupId, *tagIds, startsAt, updatedAt',
+        profiles: 'id, displayName, updatedAt',
+        mutations: '++id, table, op, createdAt',
+        syncState: 'table',
+        syncBase: '[table+id]',
+        conflicts: '++id, [table+rowId], detectedAt',
+        settings: 'key',
+        deadLetters: '++id, failedAt',
+        syncLog: '++id, startedAt',
+        pullSeen: '[table+id], table',
+        quarantine: '[table+rowId], receivedAt',
+      })
+      .upgrade(async (tx) => {
+        await tx
+          .table<CalendarEvent>('events')
+          .toCollection()
+          .modify((event) => {
+            event.allDay ??= false;
+            event.startDate ??= null;
+            event.endDate ??= null;
+          });
+      });
+
+    this.version(22)
+      .stores({
+        tags: 'id, name, updatedAt',
+        categories: 'id, ownerUserId, owner, *tagIds, updatedAt',
+        items: 'id, categoryId, updatedAt',
+        actions: 'id, categoryId, itemId, seriesId, *assigneeUserIds, *tagIds, dueDate, updatedAt',
+        subtasks: 'id, actionId, updatedAt',
+        events: 'id, categoryId, seriesEventId, seriesGroupId, *tagIds, startsAt, updatedAt',
+        profiles: 'id, displayName, updatedAt',
+        mutations: '++id, table, op, createdAt',
+        syncState: 'table',
+        syncBase: '[table+id]',
+        conflicts: '++id, [table+rowId], detectedAt',
+        settings: 'key',
+        deadLetters: '++id, failedAt',
+        syncLog: '++id, startedAt',
+        pullSeen: '[table+id], table',
+        quarantine: '[table+rowId], receivedAt',
+      })
+      .upgrade(async (tx) => {
+        await tx
+          .table<CalendarEvent>('events')
+          .toCollection()
+          .modify((event) => {
+            event.rotationSkips ??= [];
+          });
+      });
   }
 }
 
@@ -47,4 +566,11 @@ export const createId = (): string => {
   return `id_${Math.random().toString(36).slice(2)}`;
 };
 
+export const defaultItemTitle = 'Generale';
+
+// Same derivation as public.default_item_id in supabase/schema.sql: every hex digit of the
+// priority id complemented, so the default item has one id on every device.
+export const defaultItemIdFor = (categoryId: string): string =>
+  categoryId.replace(/[0-9a-f]/g, (digit) => (15 - parseInt(digit, 16)).toString(16));
+
 export const nowIso = (): string => new Date().toISOString();
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { blockedActionIds, findDependencyCycle } from './dependencies';
+import type { PlanAction } from './types';
+
+const action = (id: string, blockedByIds: string[] = [], changes: Partial<PlanAction> = {}): PlanAction => ({
+  id,
+  categoryId: 'category-1',
+  itemId: 'item-1',
+  title: id,
+  percentComplete: 0,
+  weight: 1,
+  isCancelled: false,
+  progressFromSubtasks: false,
+  blockedByIds,
+  recurrenceRule: null,
+  repeatAfterDays: null,
+  seriesId: null,
+  rotationUserIds: [],
+  assigneeUserId: null,
+  assigneeUserIds: [],
+  tagIds: [],
+  dueDate: null,
+  reminders: [],
+  mentionUserIds: [],
+  createdAt: '2026-10-01T10:00:00.000Z',
+  updatedAt: '2026-10-01T10:00:00.000Z',
+  ...changes,
+});
+
+describe('blockedActionIds', () => {
+  it('blocks an action while any of its blockers is open', () => {
+    const actions = [action('a'), action('b', ['a']), action('c', ['b'])];
+    expect(blockedActionIds(actions)).toEqual(new Set(['b', 'c']));
+  });
+
+  it('releases an action once its blockers are done or cancelled', () => {
+    const actions = [
+      action('done', [], { percentComplete: 100 }),
+      action('cancelled', [], { isCancelled: true }),
+      action('waiting', ['done', 'cancelled']),
+    ];
+    expect(blockedActionIds(actions)).toEqual(new Set());
+  });
+
+  it('ignores links to actions that no longer exist', () => {
+    expect(blockedActionIds([action('a', ['deleted'])])).toEqual(new Set());
+  });
+});
+
+describe('findDependencyCycle', () => {
+  it('returns the chain a new link would close', () => {
+    const actions = [action('a'), action('b', ['a']), action('c', ['b'])];
+    expect(findDependencyCycle(actions, 'a', ['c'])).toEqual(['a', 'c', 'b', 'a']);
+  });
+
+  it('rejects an action blocking itself', () => {
+    expect(findDependencyCycle([action('a')], 'a', ['a'])).toEqual(['a', 'a']);
+  });
+
+  it('accepts links that keep the graph acyclic', () => {
+    const actions = [action('a'), action('b', ['a']), action('c', ['a'])];
+    expect(findDependencyCycle(actions, 'c', ['a', 'b'])).toBeNull();
+  });
+
+  it('checks the new links rather than the stored ones', () => {
+    // c used to wait on a; replacing that link removes the only path back to a.
+    const actions = [action('a', ['b']), action('b', ['c']), action('c', ['a'])];
+    expect(findDependencyCycle(actions, 'c', [])).toBeNull();
+  });
+});
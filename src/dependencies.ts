@@ -0,0 +1,44 @@
+import type { PlanAction } from './types';
+
+// A cancelled blocker no longer holds anything up, just like a finished one.
+export const isActionFinished = (action: PlanAction): boolean => action.isCancelled || action.percentComplete >= 100;
+
+// Blockers that are still open. Links to actions that no longer exist are ignored.
+export const openBlockersOf = (action: PlanAction, actionsById: Map<string, PlanAction>): PlanAction[] =>
+  action.blockedByIds
+    .map((blockerId) => actionsById.get(blockerId))
+    .filter((blocker): blocker is PlanAction => blocker !== undefined && !isActionFinished(blocker));
+
+export const blockedActionIds = (actions: PlanAction[]): Set<string> => {
+  const actionsById = new Map(actions.map((action) => [action.id, action]));
+  return new Set(
+    actions.filter((action) => openBlockersOf(action, actionsById).length > 0).map((action) => action.id),
+  );
+};
+
+// Returns the chain actionId -> ... -> actionId that the new links would close, or null
+// when the dependency graph stays acyclic.
+export const findDependencyCycle = (actions: PlanAction[], actionId: string, blockedByIds: string[]): string[] | null => {
+  const links = new Map(actions.map((action) => [action.id, action.blockedByIds]));
+  links.set(actionId, blockedByIds);
+
+  const visited = new Set<string>();
+  const walk = (currentId: string, path: string[]): string[] | null => {
+    for (const nextId of links.get(currentId) ?? []) {
+      if (nextId === actionId) {
+        return [...path, nextId];
+      }
+      if (visited.has(nextId)) {
+        continue;
+      }
+      visited.add(nextId);
+      const cycle = walk(nextId, [...path, nextId]);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    return null;
+  };
+
+  return walk(actionId, [actionId]);
+};
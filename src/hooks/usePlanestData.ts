@@ -1,9 +1,57 @@
-import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { endOfWeek, isWithinInterval, startOfWeek } from 'date-fns';
-import { db, createId, nowIso } from '../db';
-import { isSupabaseEnabled } from '../supabase';
-import { enqueueMutation, syncAll } from '../sync';
-import type { CalendarEvent, PlanAction, PriorityCategory, UserProfile, WeeklySummary } from '../types';
+import { defaultConflictPolicies, loadConflictPolicies, saveConflictPolicy } from '../conflicts';
+import { db, createId, defaultItemIdFor, defaultItemTitle, nowIso } from '../db';
+import { buildNextInstance, isRecurringAction, openInstanceOf, seriesKeyOf, supersededActionIds } from '../actionRecurrence';
+import { isSyncEnabled, syncAdapter } from '../adapters';
+import { occurrencesInRange, overriddenOccurrencesOf } from '../occurrences';
+import { eventAssigneeAt, nextInRotation, swapInRotation } from '../rotation';
+import { capRecurrenceRule, splitSeries } from '../seriesSplit';
+import { eventTimeZone, fromWallClock, zonedDayIso } from '../timeZones';
+import { blockedActionIds as findBlockedActionIds, findDependencyCycle, openBlockersOf } from '../dependencies';
+import {
+  defaultProgressOptions,
+  loadProgressOptions,
+  progressByCategory,
+  progressByItem,
+  progressByOwner,
+  saveProgressOptions,
+  type ProgressOptions,
+} from '../progress';
+import { registerPeriodicSync, requestBackgroundSync, type SyncedMessage } from '../backgroundSync';
+import { startRealtime } from '../realtime';
+import {
+  enqueueMutation,
+  isAuthFailure,
+  issueFromError,
+  recordSyncIssue,
+  restoreRowFromRemote,
+  syncAll,
+  type SyncOptions,
+} from '../sync';
+import { startTabCoordinator, type TabCoordinator, type TabMessage } from '../tabs';
+import type {
+  ActionSubtask,
+  CalendarEvent,
+  ConflictPolicy,
+  ConnectionState,
+  ConflictResolution,
+  DataScope,
+  DeadLetter,
+  PlanAction,
+  PlanItem,
+  PlanTag,
+  PriorityCategory,
+  PullProgress,
+  QuarantinedRow,
+  SyncConflict,
+  SyncCursor,
+  SyncLogEntry,
+  SyncStatus,
+  SyncTable,
+  UserProfile,
+  WeeklySummary,
+} from '../types';
 
 type AddEventInput = {
   title: string;
@@ -11,71 +59,391 @@ type AddEventInput = {
   categoryId: string | null;
   startsAt: string;
   endsAt: string;
+  timeZone: string;
+  allDay: boolean;
+  startDate: string | null;
+  endDate: string | null;
   recurrenceRule: string | null;
   exceptionDates: string[];
   reminders: string[];
   mentionUserIds: string[];
+  rotationUserIds: string[];
+  tagIds: string[];
   color: string;
   colorName: string | null;
   attachmentName: string | null;
   attachmentDataUrl: string | null;
 };
 
-const toRRuleUtcDateTime = (date: Date): string =>
-  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}Z$/, 'Z');
+type AddActionInput = {
+  categoryId: string;
+  itemId: string | null;
+  title: string;
+  dueDate: string | null;
+  reminders: string[];
+  mentionUserIds: string[];
+  weight: number;
+  recurrenceRule: string | null;
+  repeatAfterDays: number | null;
+  rotationUserIds: string[];
+  assigneeUserIds: string[];
+  tagIds: string[];
+};
+
+const dataScopes: DataScope[] = [
+  'profiles',
+  'tags',
+  'categories',
+  'items',
+  'actions',
+  'subtasks',
+  'events',
+  'conflicts',
+  'deadLetters',
+  'settings',
+  'sync',
+];
+const syncHistoryLength = 20;
+
+// The server tombstones the subtasks of a deleted action on its own, so only the local
+// copies go away here.
+const removeSubtasksOf = async (actionIds: string[]) => {
+  await db.subtasks.where('actionId').anyOf(actionIds).delete();
+};
+
+// Edited occurrences of a deleted series are tombstoned by the server as well.
+const removeOverridesOf = async (seriesEventId: string) => {
+  await db.events.where('seriesEventId').equals(seriesEventId).delete();
+};
+
+// Deleted actions stop blocking anything: their ids are dropped from the remaining links.
+const unlinkBlockers = async (actionIds: string[]) => {
+  const removed = new Set(actionIds);
+  const timestamp = nowIso();
+  const dependents = await db.actions.filter((action) => action.blockedByIds.some((id) => removed.has(id))).toArray();
+  for (const dependent of dependents) {
+    const updated: PlanAction = {
+      ...dependent,
+      blockedByIds: dependent.blockedByIds.filter((id) => !removed.has(id)),
+      updatedAt: timestamp,
+    };
+    await db.actions.put(updated);
+    await enqueueMutation({ table: 'actions', op: 'upsert', payload: updated, createdAt: timestamp });
+  }
+};
+
+// Tags live in plain id lists on the rows that carry them, so a deleted tag is taken out of
+// each of those rows.
+const unlinkTag = async (tagId: string) => {
+  const timestamp = nowIso();
+  for (const table of ['categories', 'actions', 'events'] as const) {
+    const tagged = await db.table<{ id: string; tagIds: string[] }>(table).where('tagIds').equals(tagId).toArray();
+    for (const row of tagged) {
+      const updated = { ...row, tagIds: row.tagIds.filter((id) => id !== tagId), updatedAt: timestamp };
+      await db.table(table).put(updated);
+      await enqueueMutation({ table, op: 'upsert', payload: updated, createdAt: timestamp });
+    }
+  }
+};
+
+// A recurring action that reaches 100% gets its next instance, checklist included and
+// unchecked, unless its series already has an open one (see openInstanceOf).
+const spawnNextInstance = async (previous: PlanAction, updated: PlanAction) => {
+  if (previous.percentComplete >= 100 || updated.percentComplete < 100 || updated.isCancelled || !isRecurringAction(updated)) {
+    return;
+  }
+  const seriesKey = seriesKeyOf(updated);
+  const root = await db.actions.get(seriesKey);
+  const instances = await db.actions.where('seriesId').equals(seriesKey).toArray();
+  const openInstance = openInstanceOf(updated, root ? [root, ...instances] : instances);
+  const next = openInstance ? null : buildNextInstance(updated, new Date(), createId());
+  if (!next) {
+    return;
+  }
+
+  await db.actions.put(next);
+  await enqueueMutation({ table: 'actions', op: 'upsert', payload: next, createdAt: next.createdAt });
+  for (const subtask of await db.subtasks.where('actionId').equals(updated.id).toArray()) {
+    const copy: ActionSubtask = {
+      ...subtask,
+      id: createId(),
+      actionId: next.id,
+      isDone: false,
+      createdAt: next.createdAt,
+      updatedAt: next.createdAt,
+    };
+    await db.subtasks.put(copy);
+    await enqueueMutation({ table: 'subtasks', op: 'upsert', payload: copy, createdAt: next.createdAt });
+  }
+};
+
+// A blocked action cannot be marked done, so its progress stops short of 100%.
+const capForBlockers = async (action: PlanAction, percentComplete: number): Promise<number> => {
+  if (percentComplete < 100 || action.blockedByIds.length === 0) {
+    return percentComplete;
+  }
+  const blockers = (await db.actions.bulkGet(action.blockedByIds)).filter((blocker): blocker is PlanAction => blocker !== undefined);
+  return openBlockersOf(action, new Map(blockers.map((blocker) => [blocker.id, blocker]))).length > 0 ? 99 : percentComplete;
+};
+
+// Actions that follow their checklist get percentComplete recomputed from it after every
+// checklist change, so the value synced to other devices is already up to date.
+const syncProgressFromSubtasks = async (actionId: string) => {
+  const action = await db.actions.get(actionId);
+  if (!action?.progressFromSubtasks) {
+    return;
+  }
+  const subtasks = await db.subtasks.where('actionId').equals(actionId).toArray();
+  const done = subtasks.filter((subtask) => subtask.isDone).length;
+  const percentComplete = await capForBlockers(action, subtasks.length > 0 ? Math.round((done / subtasks.length) * 100) : 0);
+  if (percentComplete === action.percentComplete) {
+    return;
+  }
+  const updated: PlanAction = { ...action, percentComplete, updatedAt: nowIso() };
+  await db.actions.put(updated);
+  await enqueueMutation({ table: 'actions', op: 'upsert', payload: updated, createdAt: nowIso() });
+  await spawnNextInstance(action, updated);
+};
 
 export const usePlanestData = () => {
   const [profiles, setProfiles] = useState<UserProfile[]>([]);
+  const [tags, setTags] = useState<PlanTag[]>([]);
   const [categories, setCategories] = useState<PriorityCategory[]>([]);
+  const [items, setItems] = useState<PlanItem[]>([]);
   const [actions, setActions] = useState<PlanAction[]>([]);
+  const [subtasks, setSubtasks] = useState<ActionSubtask[]>([]);
   const [events, setEvents] = useState<CalendarEvent[]>([]);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [deadLetters, setDeadLetters] = useState<DeadLetter[]>([]);
+  const [conflictPolicies, setConflictPolicies] = useState<Record<SyncTable, ConflictPolicy>>(defaultConflictPolicies);
+  const [progressOptions, setProgressOptionsState] = useState<ProgressOptions>(defaultProgressOptions);
   const [isSyncing, setIsSyncing] = useState(false);
   const [lastSyncAt, setLastSyncAt] = useState<string | null>(null);
+  const [isLeader, setIsLeader] = useState(false);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [syncCursors, setSyncCursors] = useState<SyncCursor[]>([]);
+  const [syncHistory, setSyncHistory] = useState<SyncLogEntry[]>([]);
+  const [pullProgress, setPullProgress] = useState<PullProgress | null>(null);
+  const [quarantined, setQuarantined] = useState<QuarantinedRow[]>([]);
+  const tabsRef = useRef<TabCoordinator | null>(null);
+  const tabMessageRef = useRef<(message: TabMessage) => void>(() => undefined);
+  const syncQueueRef = useRef<Promise<void>>(Promise.resolve());
 
-  const refresh = useCallback(async () => {
-    const [nextProfiles, nextCategories, nextActions, nextEvents] = await Promise.all([
-      db.profiles.toArray(),
-      db.categories.toArray(),
-      db.actions.toArray(),
-      db.events.toArray(),
-    ]);
-
-    setProfiles(nextProfiles);
-    setCategories(nextCategories);
-    setActions(nextActions);
-    setEvents(nextEvents);
+  const refresh = useCallback(async (scopes: DataScope[] = dataScopes) => {
+    const loaders: Record<DataScope, () => Promise<void>> = {
+      profiles: async () => setProfiles(await db.profiles.toArray()),
+      tags: async () => setTags(await db.tags.orderBy('name').toArray()),
+      categories: async () => setCategories(await db.categories.toArray()),
+      items: async () => setItems(await db.items.toArray()),
+      actions: async () => setActions(await db.actions.toArray()),
+      subtasks: async () => setSubtasks(await db.subtasks.orderBy('actionId').toArray()),
+      events: async () => setEvents(await db.events.toArray()),
+      conflicts: async () => setConflicts(await db.conflicts.orderBy('detectedAt').toArray()),
+      deadLetters: async () => setDeadLetters(await db.deadLetters.orderBy('failedAt').toArray()),
+      settings: async () => {
+        const [nextPolicies, nextProgressOptions] = await Promise.all([loadConflictPolicies(), loadProgressOptions()]);
+        setConflictPolicies(nextPolicies);
+        setProgressOptionsState(nextProgressOptions);
+      },
+      sync: async () => {
+        const [nextPendingCount, nextCursors, nextHistory, nextQuarantined] = await Promise.all([
+          db.mutations.count(),
+          db.syncState.toArray(),
+          db.syncLog.orderBy('startedAt').reverse().limit(syncHistoryLength).toArray(),
+          db.quarantine.orderBy('receivedAt').reverse().toArray(),
+        ]);
+        setPendingCount(nextPendingCount);
+        setSyncCursors(nextCursors);
+        setSyncHistory(nextHistory);
+        setQuarantined(nextQuarantined);
+      },
+    };
+    await Promise.all(Array.from(new Set(scopes), (scope) => loaders[scope]()));
   }, []);
 
-  const safeSync = useCallback(async () => {
-    if (!isSupabaseEnabled || !navigator.onLine) {
-      return;
+  // Reloads the given slices here and tells the other tabs to do the same. Any change can
+  // move the queue, so the sync status always comes along.
+  const publishChanges = useCallback(
+    async (changedScopes: DataScope[]) => {
+      const scopes: DataScope[] = [...changedScopes, 'sync'];
+      await refresh(scopes);
+      tabsRef.current?.post({ type: 'changed', scopes });
+    },
+    [refresh],
+  );
+
+  const runSync = useCallback(
+    async (options: SyncOptions) => {
+      let syncedAt: string | null = null;
+      setIsSyncing(true);
+      tabsRef.current?.post({ type: 'sync-status', isSyncing: true, syncedAt });
+      try {
+        const report = await syncAll({ ...options, onProgress: setPullProgress }).catch(() => null);
+        if (!report) {
+          // The failed run is already in the sync log.
+          await publishChanges([]);
+          return;
+        }
+        const { tables } = report;
+        syncedAt = new Date().toISOString();
+        setLastSyncAt(syncedAt);
+        await publishChanges([...tables, 'conflicts', 'deadLetters']);
+        if ((await db.mutations.count()) > 0) {
+          void requestBackgroundSync();
+        }
+      } finally {
+        setIsSyncing(false);
+        setPullProgress(null);
+        tabsRef.current?.post({ type: 'sync-status', isSyncing: false, syncedAt });
+      }
+    },
+    [publishChanges],
+  );
+
+  // Only the leader tab talks to the backend, one sync at a time, so a queued mutation
+  // is never pushed twice. Other tabs ask the leader to sync on their behalf.
+  const safeSync = useCallback(
+    async (options: SyncOptions = {}) => {
+      if (!isSyncEnabled) {
+        return;
+      }
+      if (!navigator.onLine) {
+        void requestBackgroundSync();
+        return;
+      }
+      if (!isLeader) {
+        tabsRef.current?.post({ type: 'sync-request', options });
+        return;
+      }
+
+      const run = syncQueueRef.current.then(() => runSync(options));
+      syncQueueRef.current = run.catch(() => undefined);
+      try {
+        await run;
+      } catch (error) {
+        // Callers fire and forget, so whatever failed around the run ends up in the sync status.
+        await recordSyncIssue(options.source ?? 'app', issueFromError(error)).catch(() => undefined);
+        await publishChanges([]).catch(() => undefined);
+      }
+    },
+    [isLeader, publishChanges, runSync],
+  );
+
+  const forceFullSync = useCallback(() => safeSync({ full: true }), [safeSync]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    tabMessageRef.current = (message) => {
+      if (message.type === 'changed') {
+        void refresh(message.scopes);
+      } else if (message.type === 'sync-request') {
+        if (isLeader) {
+          void safeSync(message.options);
+        }
+      } else {
+        setIsSyncing(message.isSyncing);
+        if (message.syncedAt) {
+          setLastSyncAt(message.syncedAt);
+        }
+      }
+    };
+  }, [isLeader, refresh, safeSync]);
+
+  useEffect(() => {
+    const coordinator = startTabCoordinator({
+      onLeader: () => setIsLeader(true),
+      onMessage: (message) => tabMessageRef.current(message),
+    });
+    tabsRef.current = coordinator;
+    return () => {
+      tabsRef.current = null;
+      coordinator.close();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (isLeader) {
+      void safeSync();
     }
+  }, [isLeader, safeSync]);
 
-    setIsSyncing(true);
-    try {
-      await syncAll();
-      setLastSyncAt(new Date().toISOString());
-      await refresh();
-    } finally {
-      setIsSyncing(false);
+  useEffect(() => {
+    if (isLeader && isSyncEnabled) {
+      void registerPeriodicSync();
     }
-  }, [refresh]);
+  }, [isLeader]);
 
   useEffect(() => {
-    refresh();
+    if (!('serviceWorker' in navigator)) {
+      return;
+    }
+
+    const handleMessage = (event: MessageEvent) => {
+      const data = event.data as SyncedMessage | undefined;
+      if (data?.type !== 'PLANEST_SYNCED') {
+        return;
+      }
+      setLastSyncAt(data.payload.syncedAt);
+      void refresh([...data.payload.tables, 'conflicts', 'deadLetters', 'sync']);
+    };
+
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
   }, [refresh]);
 
   useEffect(() => {
+    if (!syncAdapter || !isLeader) {
+      return;
+    }
+
+    return startRealtime({
+      createChannel: syncAdapter.createChannel,
+      onApplied: (tables) => void publishChanges(tables),
+      onResubscribed: () => void safeSync(),
+      onApplyFailed: (table, error) => {
+        void recordSyncIssue('realtime', issueFromError(error, table)).then(() => publishChanges([]));
+        void safeSync();
+      },
+    });
+  }, [isLeader, publishChanges, safeSync]);
+
+  useEffect(() => {
+    const handleConnectivity = () => setIsOnline(navigator.onLine);
+
+    window.addEventListener('online', handleConnectivity);
+    window.addEventListener('offline', handleConnectivity);
+    return () => {
+      window.removeEventListener('online', handleConnectivity);
+      window.removeEventListener('offline', handleConnectivity);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isLeader) {
+      return;
+    }
+
     const handleOnline = () => {
       void safeSync();
     };
 
     window.addEventListener('online', handleOnline);
     return () => window.removeEventListener('online', handleOnline);
-  }, [safeSync]);
+  }, [isLeader, safeSync]);
 
   const addCategory = useCallback(
-    async (title: string, owner: string, ownerUserId: string | null, color: string, colorName: string | null) => {
+    async (
+      title: string,
+      owner: string,
+      ownerUserId: string | null,
+      color: string,
+      colorName: string | null,
+      tagIds: string[] = [],
+    ) => {
       const timestamp = nowIso();
       const category: PriorityCategory = {
         id: createId(),
@@ -84,39 +452,159 @@ export const usePlanestData = () => {
         ownerUserId,
         color,
         colorName,
+        tagIds,
         createdAt: timestamp,
         updatedAt: timestamp,
       };
 
       await db.categories.put(category);
       await enqueueMutation({ table: 'categories', op: 'upsert', payload: category, createdAt: timestamp });
-      await refresh();
+      await publishChanges(['categories']);
+      void safeSync();
+    },
+    [publishChanges, safeSync],
+  );
+
+  const addTag = useCallback(
+    async (name: string, color: string) => {
+      const timestamp = nowIso();
+      const tag: PlanTag = { id: createId(), name, color, createdAt: timestamp, updatedAt: timestamp };
+
+      await db.tags.put(tag);
+      await enqueueMutation({ table: 'tags', op: 'upsert', payload: tag, createdAt: timestamp });
+      await publishChanges(['tags']);
+      void safeSync();
+    },
+    [publishChanges, safeSync],
+  );
+
+  const renameTag = useCallback(
+    async (tagId: string, name: string) => {
+      const existing = await db.tags.get(tagId);
+      if (!existing) {
+        return;
+      }
+      const updated: PlanTag = { ...existing, name, updatedAt: nowIso() };
+      await db.tags.put(updated);
+      await enqueueMutation({ table: 'tags', op: 'upsert', payload: updated, createdAt: nowIso() });
+      await publishChanges(['tags']);
+      void safeSync();
+    },
+    [publishChanges, safeSync],
+  );
+
+  const deleteTag = useCallback(
+    async (tagId: string) => {
+      const timestamp = nowIso();
+      await db.tags.delete(tagId);
+      await unlinkTag(tagId);
+      await enqueueMutation({ table: 'tags', op: 'delete', payload: { id: tagId }, createdAt: timestamp });
+      await publishChanges(['tags', 'categories', 'actions', 'events']);
       void safeSync();
     },
-    [refresh, safeSync],
+    [publishChanges, safeSync],
   );
 
+  const addItem = useCallback(
+    async (categoryId: string, title: string) => {
+      const timestamp = nowIso();
+      const item: PlanItem = { id: createId(), categoryId, title, createdAt: timestamp, updatedAt: timestamp };
+
+      await db.items.put(item);
+      await enqueueMutation({ table: 'items', op: 'upsert', payload: item, createdAt: timestamp });
+      await publishChanges(['items']);
+      void safeSync();
+    },
+    [publishChanges, safeSync],
+  );
+
+  const updateItemTitle = useCallback(
+    async (itemId: string, title: string) => {
+      const existing = await db.items.get(itemId);
+      if (!existing) {
+        return;
+      }
+      const updated: PlanItem = { ...existing, title, updatedAt: nowIso() };
+      await db.items.put(updated);
+      await enqueueMutation({ table: 'items', op: 'upsert', payload: updated, createdAt: nowIso() });
+      await publishChanges(['items']);
+      void safeSync();
+    },
+    [publishChanges, safeSync],
+  );
+
+  const deleteItem = useCallback(
+    async (itemId: string) => {
+      const existing = await db.items.get(itemId);
+      if (!existing) {
+        return;
+      }
+
+      const linkedActions = await db.actions.where('itemId').equals(itemId).toArray();
+      const timestamp = nowIso();
+      await db.actions.bulkDelete(linkedActions.map((action) => action.id));
+      await removeSubtasksOf(linkedActions.map((action) => action.id));
+      await unlinkBlockers(linkedActions.map((action) => action.id));
+      for (const action of linkedActions) {
+        await enqueueMutation({ table: 'actions', op: 'delete', payload: { id: action.id }, createdAt: timestamp });
+      }
+
+      await db.items.delete(itemId);
+      await enqueueMutation({ table: 'items', op: 'delete', payload: { id: itemId }, createdAt: timestamp });
+      await publishChanges(['items', 'actions', 'subtasks']);
+      void safeSync();
+    },
+    [publishChanges, safeSync],
+  );
+
+  // Without an explicit item the action lands in the priority's default item, created on
+  // first use with the same id every device derives.
   const addAction = useCallback(
-    async (categoryId: string, title: string, dueDate: string | null, reminders: string[], mentionUserIds: string[]) => {
+    async ({ categoryId, itemId, ...input }: AddActionInput) => {
       const timestamp = nowIso();
+      const targetItemId = itemId ?? defaultItemIdFor(categoryId);
+      if (!(await db.items.get(targetItemId))) {
+        const item: PlanItem = {
+          id: targetItemId,
+          categoryId,
+          title: defaultItemTitle,
+          createdAt: timestamp,
+          updatedAt: timestamp,
+        };
+        await db.items.put(item);
+        await enqueueMutation({ table: 'items', op: 'upsert', payload: item, createdAt: timestamp });
+      }
+
       const action: PlanAction = {
         id: createId(),
         categoryId,
-        title,
+        itemId: targetItemId,
+        title: input.title,
         percentComplete: 0,
-        dueDate,
-        reminders,
-        mentionUserIds,
+        weight: input.weight,
+        isCancelled: false,
+        progressFromSubtasks: false,
+        blockedByIds: [],
+        recurrenceRule: input.recurrenceRule,
+        repeatAfterDays: input.repeatAfterDays,
+        seriesId: null,
+        rotationUserIds: input.rotationUserIds,
+        assigneeUserId: input.rotationUserIds[0] ?? null,
+        assigneeUserIds: input.assigneeUserIds,
+        tagIds: input.tagIds,
+        dueDate: input.dueDate,
+        reminders: input.reminders,
+        mentionUserIds: input.mentionUserIds,
         createdAt: timestamp,
         updatedAt: timestamp,
       };
 
       await db.actions.put(action);
       await enqueueMutation({ table: 'actions', op: 'upsert', payload: action, createdAt: timestamp });
-      await refresh();
+      await publishChanges(['items', 'actions']);
       void safeSync();
     },
-    [refresh, safeSync],
+    [publishChanges, safeSync],
   );
 
   const updateActionProgress = useCallback(
@@ -128,31 +616,211 @@ export const usePlanestData = () => {
 
       const updated: PlanAction = {
         ...existing,
-        percentComplete: Math.max(0, Math.min(100, percentComplete)),
+        percentComplete: await capForBlockers(existing, Math.max(0, Math.min(100, percentComplete))),
         updatedAt: nowIso(),
       };
 
       await db.actions.put(updated);
       await enqueueMutation({ table: 'actions', op: 'upsert', payload: updated, createdAt: nowIso() });
-      await refresh();
+      await spawnNextInstance(existing, updated);
+      await publishChanges(['actions', 'subtasks']);
+      void safeSync();
+    },
+    [publishChanges, safeSync],
+  );
+
+  const saveAction = useCallback(
+    async (actionId: string, changes: Partial<PlanAction>) => {
+      const existing = await db.actions.get(actionId);
+      if (!existing) {
+        return;
+      }
+      const updated: PlanAction = { ...existing, ...changes, updatedAt: nowIso() };
+      await db.actions.put(updated);
+      await enqueueMutation({ table: 'actions', op: 'upsert', payload: updated, createdAt: nowIso() });
+      await publishChanges(['actions']);
       void safeSync();
     },
-    [refresh, safeSync],
+    [publishChanges, safeSync],
+  );
+
+  const updateActionWeight = useCallback(
+    async (actionId: string, weight: number) => {
+      if (!Number.isFinite(weight) || weight <= 0) {
+        return;
+      }
+      await saveAction(actionId, { weight });
+    },
+    [saveAction],
+  );
+
+  const setActionCancelled = useCallback(
+    async (actionId: string, isCancelled: boolean) => {
+      await saveAction(actionId, { isCancelled });
+    },
+    [saveAction],
+  );
+
+  const setActionBlockers = useCallback(
+    async (actionId: string, blockedByIds: string[]): Promise<{ error: string | null }> => {
+      const allActions = await db.actions.toArray();
+      const cycle = findDependencyCycle(allActions, actionId, blockedByIds);
+      if (cycle) {
+        const titles = new Map(allActions.map((action) => [action.id, action.title]));
+        return { error: `Dipendenza circolare: ${cycle.map((id) => titles.get(id) ?? id).join(' → ')}` };
+      }
+      await saveAction(actionId, { blockedByIds: Array.from(new Set(blockedByIds)) });
+      return { error: null };
+    },
+    [saveAction],
+  );
+
+  const setActionAssignees = useCallback(
+    async (actionId: string, assigneeUserIds: string[]) => {
+      await saveAction(actionId, { assigneeUserIds: Array.from(new Set(assigneeUserIds)) });
+    },
+    [saveAction],
+  );
+
+  const setActionTags = useCallback(
+    async (actionId: string, tagIds: string[]) => {
+      await saveAction(actionId, { tagIds });
+    },
+    [saveAction],
+  );
+
+  const skipActionTurn = useCallback(
+    async (actionId: string) => {
+      const existing = await db.actions.get(actionId);
+      if (!existing || existing.rotationUserIds.length === 0) {
+        return;
+      }
+      await saveAction(actionId, { assigneeUserId: nextInRotation(existing.rotationUserIds, existing.assigneeUserId) });
+    },
+    [saveAction],
+  );
+
+  // The member taking over swaps places with the current assignee, so the following
+  // turns keep the same order.
+  const swapActionTurn = useCallback(
+    async (actionId: string, userId: string) => {
+      const existing = await db.actions.get(actionId);
+      if (!existing?.assigneeUserId || !existing.rotationUserIds.includes(userId)) {
+        return;
+      }
+      await saveAction(actionId, {
+        rotationUserIds: swapInRotation(existing.rotationUserIds, existing.assigneeUserId, userId),
+        assigneeUserId: userId,
+      });
+    },
+    [saveAction],
+  );
+
+  const setProgressFromSubtasks = useCallback(
+    async (actionId: string, progressFromSubtasks: boolean) => {
+      const existing = await db.actions.get(actionId);
+      if (!existing) {
+        return;
+      }
+      const updated: PlanAction = { ...existing, progressFromSubtasks, updatedAt: nowIso() };
+      await db.actions.put(updated);
+      await enqueueMutation({ table: 'actions', op: 'upsert', payload: updated, createdAt: nowIso() });
+      await syncProgressFromSubtasks(actionId);
+      await publishChanges(['actions']);
+      void safeSync();
+    },
+    [publishChanges, safeSync],
+  );
+
+  const saveSubtask = useCallback(
+    async (subtask: ActionSubtask) => {
+      const updated = { ...subtask, updatedAt: nowIso() };
+      await db.subtasks.put(updated);
+      await enqueueMutation({ table: 'subtasks', op: 'upsert', payload: updated, createdAt: nowIso() });
+      await syncProgressFromSubtasks(subtask.actionId);
+      await publishChanges(['subtasks', 'actions']);
+      void safeSync();
+    },
+    [publishChanges, safeSync],
+  );
+
+  const addSubtask = useCallback(
+    async (actionId: string, title: string) => {
+      const siblings = await db.subtasks.where('actionId').equals(actionId).toArray();
+      const timestamp = nowIso();
+      await saveSubtask({
+        id: createId(),
+        actionId,
+        title,
+        isDone: false,
+        position: siblings.reduce((max, subtask) => Math.max(max, subtask.position + 1), 0),
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      });
+    },
+    [saveSubtask],
+  );
+
+  const updateSubtask = useCallback(
+    async (subtaskId: string, changes: Partial<Pick<ActionSubtask, 'title' | 'isDone'>>) => {
+      const existing = await db.subtasks.get(subtaskId);
+      if (!existing) {
+        return;
+      }
+      await saveSubtask({ ...existing, ...changes });
+    },
+    [saveSubtask],
+  );
+
+  // Swaps positions with the neighbour above (-1) or below (1).
+  const moveSubtask = useCallback(
+    async (subtaskId: string, direction: -1 | 1) => {
+      const existing = await db.subtasks.get(subtaskId);
+      if (!existing) {
+        return;
+      }
+      const siblings = (await db.subtasks.where('actionId').equals(existing.actionId).toArray()).sort(
+        (left, right) => left.position - right.position,
+      );
+      const neighbour = siblings[siblings.findIndex((subtask) => subtask.id === subtaskId) + direction];
+      if (!neighbour) {
+        return;
+      }
+      await saveSubtask({ ...existing, position: neighbour.position });
+      await saveSubtask({ ...neighbour, position: existing.position });
+    },
+    [saveSubtask],
+  );
+
+  const deleteSubtask = useCallback(
+    async (subtaskId: string) => {
+      const existing = await db.subtasks.get(subtaskId);
+      if (!existing) {
+        return;
+      }
+
+      await db.subtasks.delete(subtaskId);
+      await enqueueMutation({ table: 'subtasks', op: 'delete', payload: { id: subtaskId }, createdAt: nowIso() });
+      await syncProgressFromSubtasks(existing.actionId);
+      await publishChanges(['subtasks', 'actions']);
+      void safeSync();
+    },
+    [publishChanges, safeSync],
   );
 
   const updatePriorityMeta = useCallback(
-    async (categoryId: string, title: string, color: string, colorName: string | null) => {
+    async (categoryId: string, title: string, color: string, colorName: string | null, tagIds: string[]) => {
       const existing = await db.categories.get(categoryId);
       if (!existing) {
         return;
       }
-      const updated: PriorityCategory = { ...existing, title, color, colorName, updatedAt: nowIso() };
+      const updated: PriorityCategory = { ...existing, title, color, colorName, tagIds, updatedAt: nowIso() };
       await db.categories.put(updated);
       await enqueueMutation({ table: 'categories', op: 'upsert', payload: updated, createdAt: nowIso() });
-      await refresh();
+      await publishChanges(['categories']);
       void safeSync();
     },
-    [refresh, safeSync],
+    [publishChanges, safeSync],
   );
 
   const updateActionTitle = useCallback(
@@ -164,10 +832,10 @@ export const usePlanestData = () => {
       const updated: PlanAction = { ...existing, title, updatedAt: nowIso() };
       await db.actions.put(updated);
       await enqueueMutation({ table: 'actions', op: 'upsert', payload: updated, createdAt: nowIso() });
-      await refresh();
+      await publishChanges(['actions']);
       void safeSync();
     },
-    [refresh, safeSync],
+    [publishChanges, safeSync],
   );
 
   const deleteAction = useCallback(
@@ -179,11 +847,13 @@ export const usePlanestData = () => {
 
       const timestamp = nowIso();
       await db.actions.delete(actionId);
+      await removeSubtasksOf([actionId]);
+      await unlinkBlockers([actionId]);
       await enqueueMutation({ table: 'actions', op: 'delete', payload: { id: actionId }, createdAt: timestamp });
-      await refresh();
+      await publishChanges(['actions', 'subtasks']);
       void safeSync();
     },
-    [refresh, safeSync],
+    [publishChanges, safeSync],
   );
 
   const deletePriority = useCallback(
@@ -193,17 +863,27 @@ export const usePlanestData = () => {
         return;
       }
 
+      const linkedItems = await db.items.where('categoryId').equals(categoryId).toArray();
       const linkedActions = await db.actions.where('categoryId').equals(categoryId).toArray();
       const linkedEvents = await db.events.where('categoryId').equals(categoryId).toArray();
       const timestamp = nowIso();
 
       if (linkedActions.length > 0) {
         await db.actions.bulkDelete(linkedActions.map((action) => action.id));
+        await removeSubtasksOf(linkedActions.map((action) => action.id));
+        await unlinkBlockers(linkedActions.map((action) => action.id));
         for (const action of linkedActions) {
           await enqueueMutation({ table: 'actions', op: 'delete', payload: { id: action.id }, createdAt: timestamp });
         }
       }
 
+      if (linkedItems.length > 0) {
+        await db.items.bulkDelete(linkedItems.map((item) => item.id));
+        for (const item of linkedItems) {
+          await enqueueMutation({ table: 'items', op: 'delete', payload: { id: item.id }, createdAt: timestamp });
+        }
+      }
+
       if (linkedEvents.length > 0) {
         for (const event of linkedEvents) {
           const updated = { ...event, categoryId: null, updatedAt: timestamp };
@@ -214,10 +894,10 @@ export const usePlanestData = () => {
 
       await db.categories.delete(categoryId);
       await enqueueMutation({ table: 'categories', op: 'delete', payload: { id: categoryId }, createdAt: timestamp });
-      await refresh();
+      await publishChanges(['categories', 'items', 'actions', 'subtasks', 'events']);
       void safeSync();
     },
-    [refresh, safeSync],
+    [publishChanges, safeSync],
   );
 
   const addEvent = useCallback(
@@ -230,10 +910,21 @@ export const usePlanestData = () => {
         categoryId: input.categoryId,
         startsAt: input.startsAt,
         endsAt: input.endsAt,
+        timeZone: input.timeZone,
+        allDay: input.allDay,
+        startDate: input.startDate,
+        endDate: input.endDate,
         recurrenceRule: input.recurrenceRule,
         exceptionDates: input.exceptionDates,
+        seriesEventId: null,
+        recurrenceId: null,
+        seriesGroupId: null,
         reminders: input.reminders,
         mentionUserIds: input.mentionUserIds,
+        rotationUserIds: input.rotationUserIds,
+        rotationOffset: 0,
+        rotationSkips: [],
+        tagIds: input.tagIds,
         color: input.color,
         colorName: input.colorName,
         attachmentName: input.attachmentName,
@@ -244,10 +935,10 @@ export const usePlanestData = () => {
 
       await db.events.put(event);
       await enqueueMutation({ table: 'events', op: 'upsert', payload: event, createdAt: timestamp });
-      await refresh();
+      await publishChanges(['events']);
       void safeSync();
     },
-    [refresh, safeSync],
+    [publishChanges, safeSync],
   );
 
   const updateEvent = useCallback(
@@ -264,10 +955,16 @@ export const usePlanestData = () => {
         categoryId: input.categoryId,
         startsAt: input.startsAt,
         endsAt: input.endsAt,
+        timeZone: input.timeZone,
+        allDay: input.allDay,
+        startDate: input.startDate,
+        endDate: input.endDate,
         recurrenceRule: input.recurrenceRule,
         exceptionDates: input.exceptionDates,
         reminders: input.reminders,
         mentionUserIds: input.mentionUserIds,
+        rotationUserIds: input.rotationUserIds,
+        tagIds: input.tagIds,
         color: input.color,
         colorName: input.colorName,
         attachmentName: input.attachmentName,
@@ -277,10 +974,164 @@ export const usePlanestData = () => {
 
       await db.events.put(updated);
       await enqueueMutation({ table: 'events', op: 'upsert', payload: updated, createdAt: nowIso() });
-      await refresh();
+      await publishChanges(['events']);
       void safeSync();
     },
-    [refresh, safeSync],
+    [publishChanges, safeSync],
+  );
+
+  // "This and following": see splitSeries for how the two parts divide the series.
+  const splitEventSeries = useCallback(
+    async (eventId: string, fromOccurrenceIso: string, input: AddEventInput) => {
+      const existing = await db.events.get(eventId);
+      if (!existing?.recurrenceRule) {
+        return;
+      }
+      const from = new Date(fromOccurrenceIso);
+      if (new Date(existing.startsAt) >= from) {
+        await updateEvent(eventId, input);
+        return;
+      }
+
+      const timestamp = nowIso();
+      const turn = eventAssigneeAt(existing, from);
+      const overrides = await db.events.where('seriesEventId').equals(eventId).toArray();
+      const { capped, following, moved } = splitSeries(
+        existing,
+        from,
+        {
+          id: createId(),
+          title: input.title,
+          description: input.description,
+          categoryId: input.categoryId,
+          startsAt: input.startsAt,
+          endsAt: input.endsAt,
+          timeZone: input.timeZone,
+          allDay: input.allDay,
+          startDate: input.startDate,
+          endDate: input.endDate,
+          recurrenceRule: input.recurrenceRule,
+          exceptionDates: [],
+          seriesEventId: null,
+          recurrenceId: null,
+          seriesGroupId: null,
+          reminders: input.reminders,
+          mentionUserIds: input.mentionUserIds,
+          rotationUserIds: input.rotationUserIds,
+          // The turn of the chosen occurrence carries over to the first one of the new part.
+          rotationOffset: turn ? Math.max(0, input.rotationUserIds.indexOf(turn)) : 0,
+          rotationSkips: [],
+          tagIds: input.tagIds,
+          color: input.color,
+          colorName: input.colorName,
+          attachmentName: input.attachmentName,
+          attachmentDataUrl: input.attachmentDataUrl,
+          createdAt: timestamp,
+          updatedAt: timestamp,
+        },
+        overrides,
+      );
+
+      await db.events.bulkPut([capped, following, ...moved]);
+      for (const payload of [capped, following, ...moved]) {
+        await enqueueMutation({ table: 'events', op: 'upsert', payload, createdAt: timestamp });
+      }
+
+      await publishChanges(['events']);
+      void safeSync();
+    },
+    [publishChanges, safeSync, updateEvent],
+  );
+
+  // One occurrence of a series, edited on its own: a separate event pointing at the series
+  // and at the start of the occurrence it replaces. Turns stay with the series.
+  const saveEventOccurrence = useCallback(
+    async (seriesEventId: string, recurrenceId: string, input: AddEventInput) => {
+      const series = await db.events.get(seriesEventId);
+      if (!series?.recurrenceRule) {
+        return;
+      }
+      const timestamp = nowIso();
+      const existing = await db.events
+        .where('seriesEventId')
+        .equals(seriesEventId)
+        .filter((event) => event.recurrenceId === recurrenceId)
+        .first();
+
+      const override: CalendarEvent = {
+        id: existing?.id ?? createId(),
+        title: input.title,
+        description: input.description,
+        categoryId: input.categoryId,
+        startsAt: input.startsAt,
+        endsAt: input.endsAt,
+        timeZone: input.timeZone,
+        allDay: input.allDay,
+        startDate: input.startDate,
+        endDate: input.endDate,
+        recurrenceRule: null,
+        exceptionDates: [],
+        seriesEventId,
+        recurrenceId,
+        seriesGroupId: null,
+        reminders: input.reminders,
+        mentionUserIds: input.mentionUserIds,
+        rotationUserIds: [],
+        rotationOffset: 0,
+        rotationSkips: [],
+        tagIds: input.tagIds,
+        color: input.color,
+        colorName: input.colorName,
+        attachmentName: input.attachmentName,
+        attachmentDataUrl: input.attachmentDataUrl,
+        createdAt: existing?.createdAt ?? timestamp,
+        updatedAt: timestamp,
+      };
+
+      await db.events.put(override);
+      await enqueueMutation({ table: 'events', op: 'upsert', payload: override, createdAt: timestamp });
+      await publishChanges(['events']);
+      void safeSync();
+    },
+    [publishChanges, safeSync],
+  );
+
+  const saveEventRotation = useCallback(
+    async (existing: CalendarEvent, changes: Partial<Pick<CalendarEvent, 'rotationUserIds' | 'rotationSkips'>>) => {
+      const updated: CalendarEvent = { ...existing, ...changes, updatedAt: nowIso() };
+      await db.events.put(updated);
+      await enqueueMutation({ table: 'events', op: 'upsert', payload: updated, createdAt: nowIso() });
+      await publishChanges(['events']);
+      void safeSync();
+    },
+    [publishChanges, safeSync],
+  );
+
+  // Skipping shifts the turn of this occurrence and of every later one by one member;
+  // earlier occurrences keep theirs.
+  const skipEventTurn = useCallback(
+    async (eventId: string, occurrenceStartIso: string) => {
+      const existing = await db.events.get(eventId);
+      if (!existing || existing.rotationUserIds.length === 0) {
+        return;
+      }
+      await saveEventRotation(existing, { rotationSkips: [...existing.rotationSkips, occurrenceStartIso] });
+    },
+    [saveEventRotation],
+  );
+
+  const swapEventTurn = useCallback(
+    async (eventId: string, occurrenceStartIso: string, userId: string) => {
+      const existing = await db.events.get(eventId);
+      const assigneeUserId = existing ? eventAssigneeAt(existing, new Date(occurrenceStartIso)) : null;
+      if (!existing || !assigneeUserId || !existing.rotationUserIds.includes(userId)) {
+        return;
+      }
+      await saveEventRotation(existing, {
+        rotationUserIds: swapInRotation(existing.rotationUserIds, assigneeUserId, userId),
+      });
+    },
+    [saveEventRotation],
   );
 
   const trimEventSeries = useCallback(
@@ -289,30 +1140,53 @@ export const usePlanestData = () => {
       if (!existing) {
         return;
       }
+
+      // Later parts of a split series lie entirely past the cut.
+      if (existing.seriesGroupId) {
+        const laterParts = await db.events
+          .where('seriesGroupId')
+          .equals(existing.seriesGroupId)
+          .filter((part) => part.id !== eventId && zonedDayIso(new Date(part.startsAt), eventTimeZone(part)) >= fromOccurrenceDateIso)
+          .toArray();
+        for (const part of laterParts) {
+          await db.events.delete(part.id);
+          await removeOverridesOf(part.id);
+          await enqueueMutation({ table: 'events', op: 'delete', payload: { id: part.id }, createdAt: nowIso() });
+        }
+      }
       if (!existing.recurrenceRule) {
         await db.events.delete(eventId);
         await enqueueMutation({ table: 'events', op: 'delete', payload: { id: eventId }, createdAt: nowIso() });
-        await refresh();
+        await publishChanges(['events']);
         void safeSync();
         return;
       }
 
-      const startDayIso = existing.startsAt.slice(0, 10);
-      if (startDayIso >= fromOccurrenceDateIso) {
+      const timeZone = eventTimeZone(existing);
+      if (zonedDayIso(new Date(existing.startsAt), timeZone) >= fromOccurrenceDateIso) {
         await db.events.delete(eventId);
+        await removeOverridesOf(eventId);
         await enqueueMutation({ table: 'events', op: 'delete', payload: { id: eventId }, createdAt: nowIso() });
-        await refresh();
+        await publishChanges(['events']);
         void safeSync();
         return;
       }
 
-      const untilDate = new Date(`${fromOccurrenceDateIso}T00:00:00.000Z`);
-      untilDate.setUTCSeconds(untilDate.getUTCSeconds() - 1);
-      const untilToken = toRRuleUtcDateTime(untilDate);
+      // The series itself stays, so the edited occurrences past the cut go one by one.
+      const trimmedOverrides = await db.events
+        .where('seriesEventId')
+        .equals(eventId)
+        .filter((event) => event.recurrenceId !== null && zonedDayIso(new Date(event.recurrenceId), timeZone) >= fromOccurrenceDateIso)
+        .toArray();
+      for (const override of trimmedOverrides) {
+        await db.events.delete(override.id);
+        await enqueueMutation({ table: 'events', op: 'delete', payload: { id: override.id }, createdAt: nowIso() });
+      }
 
-      const baseRule = existing.recurrenceRule.replace(/^RRULE:/, '');
-      const cleaned = baseRule.replace(/;UNTIL=[^;]+/g, '').replace(/;COUNT=[^;]+/g, '');
-      const nextRule = `RRULE:${cleaned};UNTIL=${untilToken}`;
+      // The series ends one second before the cut day starts in the event's zone.
+      const untilDate = fromWallClock(new Date(`${fromOccurrenceDateIso}T00:00:00.000Z`), timeZone);
+      untilDate.setUTCSeconds(untilDate.getUTCSeconds() - 1);
+      const nextRule = capRecurrenceRule(existing.recurrenceRule, untilDate);
 
       const updated: CalendarEvent = {
         ...existing,
@@ -321,28 +1195,49 @@ export const usePlanestData = () => {
       };
       await db.events.put(updated);
       await enqueueMutation({ table: 'events', op: 'upsert', payload: updated, createdAt: nowIso() });
-      await refresh();
+      await publishChanges(['events']);
       void safeSync();
     },
-    [refresh, safeSync],
+    [publishChanges, safeSync],
   );
 
-  const categoryProgressMap = useMemo(() => {
-    const map = new Map<string, number>();
+  const syncStatus = useMemo<SyncStatus>(() => {
+    const lastError = syncHistory[0]?.issues[0] ?? null;
+    let connection: ConnectionState = 'online';
+    if (!isSyncEnabled) {
+      connection = 'local';
+    } else if (!isOnline) {
+      connection = 'offline';
+    } else if (lastError && isAuthFailure(lastError)) {
+      connection = 'auth-expired';
+    }
+    return {
+      connection,
+      pendingCount,
+      cursors: syncCursors,
+      lastError,
+      progress: pullProgress,
+      quarantined,
+      history: syncHistory,
+    };
+  }, [isOnline, pendingCount, pullProgress, quarantined, syncCursors, syncHistory]);
 
-    for (const category of categories) {
-      const linkedActions = actions.filter((action) => action.categoryId === category.id);
-      if (linkedActions.length === 0) {
-        map.set(category.id, 0);
-        continue;
-      }
+  // Progress rolls up one level at a time, see progressByItem.
+  const historyActionIds = useMemo(() => supersededActionIds(actions), [actions]);
 
-      const completed = linkedActions.filter((action) => action.percentComplete >= 100).length;
-      map.set(category.id, Math.round((completed / linkedActions.length) * 100));
-    }
+  const itemProgressMap = useMemo(
+    () => progressByItem(items, actions, progressOptions, historyActionIds),
+    [actions, historyActionIds, items, progressOptions],
+  );
 
-    return map;
-  }, [actions, categories]);
+  const categoryProgressMap = useMemo(
+    () => progressByCategory(categories, items, itemProgressMap),
+    [categories, itemProgressMap, items],
+  );
+
+  const ownerProgressMap = useMemo(() => progressByOwner(categories, categoryProgressMap), [categories, categoryProgressMap]);
+
+  const blockedActionIds = useMemo(() => findBlockedActionIds(actions), [actions]);
 
   const weeklySummary = useMemo<WeeklySummary>(() => {
     const now = new Date();
@@ -359,14 +1254,23 @@ export const usePlanestData = () => {
       }
       return isWithinInterval(new Date(action.dueDate), interval);
     }).length;
-    const eventsThisWeek = events.filter((event) => isWithinInterval(new Date(event.startsAt), interval)).length;
+    // Every occurrence touching the week counts once, the same way the calendar shows it.
+    const overridden = overriddenOccurrencesOf(events);
+    const eventsThisWeek = events.reduce(
+      (total, event) => total + occurrencesInRange(event, interval, overridden.get(event.id)).length,
+      0,
+    );
 
     return { completedActions, incompleteActions, dueThisWeek, eventsThisWeek };
   }, [actions, events]);
 
   const incompleteWithDueDate = useMemo(
-    () => actions.filter((action) => action.percentComplete < 100 && Boolean(action.dueDate)),
-    [actions],
+    () =>
+      actions.filter(
+        (action) =>
+          action.percentComplete < 100 && !action.isCancelled && !blockedActionIds.has(action.id) && Boolean(action.dueDate),
+      ),
+    [actions, blockedActionIds],
   );
 
   const saveEvent = useCallback(
@@ -374,10 +1278,10 @@ export const usePlanestData = () => {
       const updated = { ...event, updatedAt: nowIso() };
       await db.events.put(updated);
       await enqueueMutation({ table: 'events', op: 'upsert', payload: updated, createdAt: nowIso() });
-      await refresh();
+      await publishChanges(['events']);
       void safeSync();
     },
-    [refresh, safeSync],
+    [publishChanges, safeSync],
   );
 
   const deleteEventSeries = useCallback(
@@ -387,23 +1291,39 @@ export const usePlanestData = () => {
         return;
       }
 
-      await db.events.delete(eventId);
-      await enqueueMutation({ table: 'events', op: 'delete', payload: { id: eventId }, createdAt: nowIso() });
-      await refresh();
+      // All parts of a split series go together.
+      const parts = existing.seriesGroupId ? await db.events.where('seriesGroupId').equals(existing.seriesGroupId).toArray() : [existing];
+      for (const part of parts) {
+        await db.events.delete(part.id);
+        await removeOverridesOf(part.id);
+        await enqueueMutation({ table: 'events', op: 'delete', payload: { id: part.id }, createdAt: nowIso() });
+      }
+      await publishChanges(['events']);
       void safeSync();
     },
-    [refresh, safeSync],
+    [publishChanges, safeSync],
   );
 
   const deleteEventOccurrence = useCallback(
     async (eventId: string, occurrenceDateIso: string) => {
-      const existing = await db.events.get(eventId);
+      let existing = await db.events.get(eventId);
       if (!existing) {
         return;
       }
 
+      // Dropping an edited occurrence drops the occurrence it replaced as well.
+      if (existing.seriesEventId) {
+        await db.events.delete(eventId);
+        await enqueueMutation({ table: 'events', op: 'delete', payload: { id: eventId }, createdAt: nowIso() });
+        existing = await db.events.get(existing.seriesEventId);
+        if (!existing) {
+          await publishChanges(['events']);
+          return;
+        }
+      }
+
       if (!existing.recurrenceRule) {
-        await deleteEventSeries(eventId);
+        await deleteEventSeries(existing.id);
         return;
       }
 
@@ -411,22 +1331,126 @@ export const usePlanestData = () => {
       const nextExceptionDates = Array.from(new Set([...(existing.exceptionDates ?? []), dayIso]));
       await saveEvent({ ...existing, exceptionDates: nextExceptionDates });
     },
-    [deleteEventSeries, saveEvent],
+    [deleteEventSeries, publishChanges, saveEvent],
+  );
+
+  const setProgressOptions = useCallback(
+    async (options: ProgressOptions) => {
+      await saveProgressOptions(options);
+      await publishChanges(['settings']);
+    },
+    [publishChanges],
+  );
+
+  const setConflictPolicy = useCallback(
+    async (table: SyncTable, policy: ConflictPolicy) => {
+      await saveConflictPolicy(table, policy);
+      await publishChanges(['settings']);
+    },
+    [publishChanges],
+  );
+
+  const resolveConflict = useCallback(
+    async (conflictId: number, resolution: ConflictResolution) => {
+      const conflict = await db.conflicts.get(conflictId);
+      if (!conflict) {
+        return;
+      }
+
+      const timestamp = nowIso();
+      const existing = await db.table(conflict.table).get(conflict.rowId);
+      if (existing) {
+        const chosen = { ...(resolution === 'local' ? conflict.local : conflict.remote), updatedAt: timestamp };
+        await db.table(conflict.table).put(chosen);
+        await enqueueMutation({ table: conflict.table, op: 'upsert', payload: chosen, createdAt: timestamp });
+
+        if (resolution === 'both' && (conflict.table === 'actions' || conflict.table === 'events')) {
+          const copy = { ...conflict.local, id: createId(), createdAt: timestamp, updatedAt: timestamp };
+          await db.table(conflict.table).put(copy);
+          await enqueueMutation({ table: conflict.table, op: 'upsert', payload: copy, createdAt: timestamp });
+        }
+      }
+
+      await db.conflicts.delete(conflictId);
+      await publishChanges([conflict.table, 'conflicts']);
+      void safeSync();
+    },
+    [publishChanges, safeSync],
+  );
+
+  const retryDeadLetter = useCallback(
+    async (deadLetterId: number) => {
+      const deadLetter = await db.deadLetters.get(deadLetterId);
+      if (!deadLetter) {
+        return;
+      }
+
+      const { table, op, payload } = deadLetter.mutation;
+      await enqueueMutation({ table, op, payload, createdAt: nowIso(), attempts: 0, lastError: null });
+      await db.deadLetters.delete(deadLetterId);
+      await publishChanges(['deadLetters']);
+      void safeSync();
+    },
+    [publishChanges, safeSync],
+  );
+
+  const discardDeadLetter = useCallback(
+    async (deadLetterId: number) => {
+      const deadLetter = await db.deadLetters.get(deadLetterId);
+      if (!deadLetter) {
+        return;
+      }
+
+      await db.deadLetters.delete(deadLetterId);
+      await restoreRowFromRemote(deadLetter.mutation.table, String(deadLetter.mutation.payload.id));
+      await publishChanges([deadLetter.mutation.table, 'deadLetters']);
+    },
+    [publishChanges],
   );
 
   return {
     profiles,
+    tags,
     categories,
+    items,
     actions,
+    subtasks,
     events,
+    itemProgressMap,
     categoryProgressMap,
+    ownerProgressMap,
+    progressOptions,
+    blockedActionIds,
+    historyActionIds,
     weeklySummary,
     incompleteWithDueDate,
+    conflicts,
+    conflictPolicies,
+    deadLetters,
     isSyncing,
     lastSyncAt,
+    syncStatus,
     addCategory,
+    addTag,
+    renameTag,
+    deleteTag,
+    addItem,
+    updateItemTitle,
+    deleteItem,
     addAction,
     updateActionProgress,
+    updateActionWeight,
+    setActionCancelled,
+    setActionBlockers,
+    setActionAssignees,
+    setActionTags,
+    skipActionTurn,
+    swapActionTurn,
+    setProgressFromSubtasks,
+    addSubtask,
+    updateSubtask,
+    moveSubtask,
+    deleteSubtask,
     updatePriorityMeta,
     updateActionTitle,
     deletePriority,
@@ -436,8 +1460,19 @@ export const usePlanestData = () => {
     deleteEventSeries,
     deleteEventOccurrence,
     trimEventSeries,
+    splitEventSeries,
+    saveEventOccurrence,
+    skipEventTurn,
+    swapEventTurn,
+    setProgressOptions,
+    setConflictPolicy,
+    resolveConflict,
+    retryDeadLetter,
+    discardDeadLetter,
     syncNow: safeSync,
+    forceFullSync,
     refresh,
-    usesSupabase: isSupabaseEnabled,
+    isLeader,
+    usesSync: isSyncEnabled,
   };
 };
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { isOccurrenceRemoved, occurrencesInRange, overriddenOccurrencesOf } from './occurrences';
+import { deviceTimeZone } from './timeZones';
+import type { CalendarEvent } from './types';
+
+const event = (changes: Partial<CalendarEvent>): CalendarEvent => ({
+  id: 'event',
+  categoryId: null,
+  title: 'Evento',
+  description: '',
+  startsAt: new Date(2026, 9, 20, 18).toISOString(),
+  endsAt: new Date(2026, 9, 20, 19).toISOString(),
+  timeZone: deviceTimeZone(),
+  allDay: false,
+  startDate: null,
+  endDate: null,
+  recurrenceRule: null,
+  exceptionDates: [],
+  seriesEventId: null,
+  recurrenceId: null,
+  seriesGroupId: null,
+  reminders: [],
+  mentionUserIds: [],
+  rotationUserIds: [],
+  rotationOffset: 0,
+  rotationSkips: [],
+  tagIds: [],
+  color: '#2563eb',
+  colorName: null,
+  attachmentName: null,
+  attachmentDataUrl: null,
+  createdAt: '2026-10-01T10:00:00.000Z',
+  updatedAt: '2026-10-01T10:00:00.000Z',
+  ...changes,
+});
+
+// Monday 19 to Sunday 25 October 2026, on the device clock like the calendar views.
+const week = { start: new Date(2026, 9, 19), end: new Date(2026, 9, 25, 23, 59, 59, 999) };
+
+const days = (occurrences: Array<{ first: string; last: string }>) => occurrences.map(({ first, last }) => `${first}..${last}`);
+
+describe('occurrencesInRange', () => {
+  it('covers every day a timed event touches, but not the day it ends at midnight', () => {
+    const trip = event({ startsAt: new Date(2026, 9, 17, 20).toISOString(), endsAt: new Date(2026, 9, 21).toISOString() });
+    expect(days(occurrencesInRange(trip, week))).toEqual(['2026-10-17..2026-10-20']);
+  });
+
+  it('keeps the dates of an all-day event whatever zone it was saved in', () => {
+    const holiday = event({
+      allDay: true,
+      timeZone: 'Asia/Tokyo',
+      startsAt: '2026-10-24T15:00:00.000Z',
+      endsAt: '2026-10-27T15:00:00.000Z',
+      startDate: '2026-10-25',
+      endDate: '2026-10-27',
+    });
+    expect(days(occurrencesInRange(holiday, week))).toEqual(['2026-10-25..2026-10-27']);
+  });
+
+  it('expands a series, leaving out deleted and separately edited occurrences', () => {
+    const daily = event({
+      id: 'daily',
+      startsAt: new Date(2026, 9, 1, 18).toISOString(),
+      endsAt: new Date(2026, 9, 1, 19).toISOString(),
+      recurrenceRule: 'RRULE:FREQ=DAILY',
+      exceptionDates: ['2026-10-21'],
+    });
+    const edited = event({
+      id: 'edited',
+      seriesEventId: 'daily',
+      recurrenceId: new Date(2026, 9, 23, 18).toISOString(),
+      startsAt: new Date(2026, 9, 23, 20).toISOString(),
+      endsAt: new Date(2026, 9, 23, 21).toISOString(),
+    });
+    const overridden = overriddenOccurrencesOf([daily, edited]);
+
+    expect(occurrencesInRange(daily, week, overridden.get('daily')).map((occurrence) => occurrence.first)).toEqual([
+      '2026-10-19',
+      '2026-10-20',
+      '2026-10-22',
+      '2026-10-24',
+      '2026-10-25',
+    ]);
+    expect(days(occurrencesInRange(edited, week))).toEqual(['2026-10-23..2026-10-23']);
+  });
+
+  it('includes a series occurrence that starts before the range and runs into it', () => {
+    const weekend = event({
+      startsAt: new Date(2026, 9, 10, 9).toISOString(),
+      endsAt: new Date(2026, 9, 12, 18).toISOString(),
+      recurrenceRule: 'RRULE:FREQ=WEEKLY',
+    });
+    expect(days(occurrencesInRange(weekend, week))).toEqual(['2026-10-17..2026-10-19', '2026-10-24..2026-10-26']);
+  });
+
+  it('drops a one-off event whose day was deleted', () => {
+    expect(occurrencesInRange(event({ exceptionDates: ['2026-10-20'] }), week)).toEqual([]);
+  });
+});
+
+describe('isOccurrenceRemoved', () => {
+  it('reads the deleted day in the event zone, not on the device clock', () => {
+    // 20:00 UTC on 20 October is already 09:00 on 21 October in Auckland.
+    const occurrence = new Date('2026-10-20T20:00:00.000Z');
+    const morning = (exceptionDates: string[]) =>
+      event({
+        timeZone: 'Pacific/Auckland',
+        startsAt: '2026-10-06T20:00:00.000Z',
+        endsAt: '2026-10-06T21:00:00.000Z',
+        recurrenceRule: 'RRULE:FREQ=DAILY',
+        exceptionDates,
+      });
+
+    expect(isOccurrenceRemoved(morning(['2026-10-21']), occurrence)).toBe(true);
+    expect(isOccurrenceRemoved(morning(['2026-10-20']), occurrence)).toBe(false);
+  });
+
+  it('counts an occurrence replaced by an edited copy as removed', () => {
+    const occurrence = new Date(2026, 9, 22, 18);
+    expect(isOccurrenceRemoved(event({}), occurrence, new Set([occurrence.toISOString()]))).toBe(true);
+    expect(isOccurrenceRemoved(event({}), occurrence, new Set())).toBe(false);
+  });
+});
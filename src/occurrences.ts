@@ -0,0 +1,72 @@
+import { addDays, differenceInCalendarDays, format, parseISO, subDays } from 'date-fns';
+import { eventRule, eventTimeZone, zonedDayIso } from './timeZones';
+import type { CalendarEvent } from './types';
+
+export type Occurrence = {
+  startsAt: Date;
+  endsAt: Date;
+  // First and last local day (yyyy-MM-dd) the occurrence covers.
+  first: string;
+  last: string;
+};
+
+const dayIso = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+// All-day events keep their dates in every zone; timed ones cover each local day they touch,
+// and ending at midnight stays on the day before.
+export const occurrenceDays = (event: CalendarEvent, occurrence: Date, durationMs: number): { first: string; last: string } => {
+  if (event.allDay && event.startDate && event.endDate) {
+    const first = zonedDayIso(occurrence, eventTimeZone(event));
+    const spanDays = Math.max(0, differenceInCalendarDays(parseISO(event.endDate), parseISO(event.startDate)));
+    return { first, last: dayIso(addDays(parseISO(first), spanDays)) };
+  }
+  return { first: dayIso(occurrence), last: dayIso(new Date(occurrence.getTime() + Math.max(0, durationMs - 1))) };
+};
+
+// Series occurrences replaced by an edited copy, as recurrence ids by series id.
+export const overriddenOccurrencesOf = (events: CalendarEvent[]): Map<string, Set<string>> => {
+  const map = new Map<string, Set<string>>();
+  for (const event of events) {
+    if (event.seriesEventId && event.recurrenceId) {
+      map.set(event.seriesEventId, (map.get(event.seriesEventId) ?? new Set<string>()).add(event.recurrenceId));
+    }
+  }
+  return map;
+};
+
+// A series occurrence deleted on its day in the event zone, or replaced by an edited copy.
+export const isOccurrenceRemoved = (event: CalendarEvent, occurrence: Date, overridden?: Set<string>): boolean =>
+  event.exceptionDates.includes(zonedDayIso(occurrence, eventTimeZone(event))) ||
+  Boolean(overridden?.has(occurrence.toISOString()));
+
+// Occurrences of an event whose days overlap the range, without deleted days and without
+// the occurrences an edited copy replaces (the copy is an event of its own).
+export const occurrencesInRange = (
+  event: CalendarEvent,
+  range: { start: Date; end: Date },
+  overridden?: Set<string>,
+): Occurrence[] => {
+  const sourceStart = new Date(event.startsAt);
+  const durationMs = Math.max(0, new Date(event.endsAt).getTime() - sourceStart.getTime());
+  const rangeFirst = dayIso(range.start);
+  const rangeLast = dayIso(range.end);
+  const exceptions = new Set(event.exceptionDates ?? []);
+  const rule = eventRule(event);
+
+  // Occurrences starting before the range can still run into it; the extra day covers
+  // all-day dates read from another zone.
+  const starts = rule
+    ? rule
+        .between(subDays(range.start, 1 + Math.ceil(durationMs / 86400000)), addDays(range.end, 1), true)
+        .filter((occurrence) => !isOccurrenceRemoved(event, occurrence, overridden))
+    : [sourceStart];
+
+  return starts
+    .map((occurrence) => ({
+      startsAt: occurrence,
+      endsAt: new Date(occurrence.getTime() + durationMs),
+      ...occurrenceDays(event, occurrence, durationMs),
+    }))
+    .filter((occurrence) => occurrence.last >= rangeFirst && occurrence.first <= rangeLast)
+    .filter((occurrence) => rule !== null || !exceptions.has(occurrence.first));
+};
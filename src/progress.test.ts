@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import {
+  combineProgress,
+  defaultProgressOptions,
+  emptyProgress,
+  progressByCategory,
+  progressByItem,
+  progressByOwner,
+  summarizeActions,
+} from './progress';
+import type { PlanAction } from './types';
+
+const action = (id: string, changes: Partial<PlanAction> = {}): PlanAction => ({
+  id,
+  categoryId: 'category-1',
+  itemId: 'item-1',
+  title: id,
+  percentComplete: 0,
+  weight: 1,
+  isCancelled: false,
+  progressFromSubtasks: false,
+  blockedByIds: [],
+  recurrenceRule: null,
+  repeatAfterDays: null,
+  seriesId: null,
+  rotationUserIds: [],
+  assigneeUserId: null,
+  assigneeUserIds: [],
+  tagIds: [],
+  dueDate: null,
+  reminders: [],
+  mentionUserIds: [],
+  createdAt: '2026-10-01T10:00:00.000Z',
+  updatedAt: '2026-10-01T10:00:00.000Z',
+  ...changes,
+});
+
+describe('summarizeActions', () => {
+  it('weighs each action by its weight and counts the finished ones', () => {
+    const progress = summarizeActions(
+      [action('a', { weight: 3, percentComplete: 100 }), action('b', { percentComplete: 20 }), action('c')],
+      defaultProgressOptions,
+    );
+    expect(progress).toMatchObject({ actionCount: 3, doneCount: 1, weight: 5, doneRatio: 33, weightedProgress: 64 });
+  });
+
+  it('leaves cancelled actions out unless asked to count them', () => {
+    const actions = [action('done', { percentComplete: 100 }), action('cancelled', { isCancelled: true, weight: 3 })];
+    expect(summarizeActions(actions, { excludeCancelled: true })).toMatchObject({ actionCount: 1, doneRatio: 100, weightedProgress: 100 });
+    expect(summarizeActions(actions, { excludeCancelled: false })).toMatchObject({ actionCount: 2, doneRatio: 50, weightedProgress: 25 });
+  });
+
+  it('reports zero for no actions', () => {
+    expect(summarizeActions([], defaultProgressOptions)).toEqual(emptyProgress);
+    expect(emptyProgress).toMatchObject({ doneRatio: 0, weightedProgress: 0 });
+  });
+});
+
+describe('combineProgress', () => {
+  it('adds up totals instead of averaging percentages', () => {
+    const half = summarizeActions([action('a', { percentComplete: 50 })], defaultProgressOptions);
+    const untouched = summarizeActions([action('b'), action('c'), action('d')], defaultProgressOptions);
+    expect(combineProgress([half, untouched])).toMatchObject({ actionCount: 4, weightedProgress: 13 });
+  });
+
+  it('treats empty groups as contributing nothing', () => {
+    const done = summarizeActions([action('a', { percentComplete: 100 })], defaultProgressOptions);
+    expect(combineProgress([done, emptyProgress])).toEqual(done);
+    expect(combineProgress([])).toEqual(emptyProgress);
+  });
+});
+
+describe('progress roll-up', () => {
+  const items = [
+    { id: 'kitchen', categoryId: 'house' },
+    { id: 'garden', categoryId: 'house' },
+    { id: 'empty', categoryId: 'house' },
+    { id: 'bills', categoryId: 'money' },
+  ];
+  const categories = [
+    { id: 'house', ownerUserId: 'anna', owner: 'Anna' },
+    { id: 'money', ownerUserId: null, owner: 'Papa' },
+    { id: 'school', ownerUserId: 'anna', owner: 'Anna' },
+  ];
+  const actions = [
+    action('dishes', { itemId: 'kitchen', percentComplete: 100 }),
+    action('old-dishes', { itemId: 'kitchen', percentComplete: 100 }),
+    action('mow', { itemId: 'garden', weight: 3 }),
+    action('rent', { itemId: 'bills', percentComplete: 50 }),
+  ];
+  const itemProgress = progressByItem(items, actions, defaultProgressOptions, new Set(['old-dishes']));
+  const categoryProgress = progressByCategory(categories, items, itemProgress);
+  const ownerProgress = progressByOwner(categories, categoryProgress);
+
+  it('rolls actions up into items, leaving out superseded instances', () => {
+    expect(itemProgress.get('kitchen')).toMatchObject({ actionCount: 1, doneRatio: 100 });
+    expect(itemProgress.get('empty')).toEqual(emptyProgress);
+  });
+
+  it('rolls items up into priorities', () => {
+    expect(categoryProgress.get('house')).toMatchObject({ actionCount: 2, doneRatio: 50, weightedProgress: 25 });
+    expect(categoryProgress.get('school')).toEqual(emptyProgress);
+  });
+
+  it('rolls priorities up by owner profile, or by the legacy free-text owner', () => {
+    expect([...ownerProgress.keys()]).toEqual(['anna', 'Papa']);
+    expect(ownerProgress.get('anna')).toEqual(categoryProgress.get('house'));
+    expect(ownerProgress.get('Papa')).toMatchObject({ actionCount: 1, weightedProgress: 50 });
+  });
+});
@@ -0,0 +1,114 @@
+import { db } from './db';
+import type { PlanAction, PlanItem, PriorityCategory } from './types';
+
+export type ProgressOptions = {
+  excludeCancelled: boolean;
+};
+
+// Totals are kept next to the percentages so a level can be combined from the levels
+// below it without averaging already rounded numbers.
+export type Progress = {
+  actionCount: number;
+  doneCount: number;
+  weight: number;
+  earnedWeight: number;
+  doneRatio: number;
+  weightedProgress: number;
+};
+
+const progressOptionsSettingKey = 'progressOptions';
+
+export const defaultProgressOptions: ProgressOptions = {
+  excludeCancelled: true,
+};
+
+export const loadProgressOptions = async (): Promise<ProgressOptions> => {
+  const stored = await db.settings.get(progressOptionsSettingKey);
+  return { ...defaultProgressOptions, ...((stored?.value as Partial<ProgressOptions>) ?? {}) };
+};
+
+export const saveProgressOptions = async (options: ProgressOptions): Promise<void> => {
+  await db.settings.put({ key: progressOptionsSettingKey, value: options });
+};
+
+const toPercent = (part: number, whole: number): number => (whole > 0 ? Math.round((part / whole) * 100) : 0);
+
+const withPercentages = (totals: Omit<Progress, 'doneRatio' | 'weightedProgress'>): Progress => ({
+  ...totals,
+  doneRatio: toPercent(totals.doneCount, totals.actionCount),
+  weightedProgress: toPercent(totals.earnedWeight, totals.weight),
+});
+
+export const emptyProgress: Progress = withPercentages({ actionCount: 0, doneCount: 0, weight: 0, earnedWeight: 0 });
+
+// Done ratio counts finished actions; weighted progress averages percentComplete with
+// each action counting for its weight.
+export const summarizeActions = (actions: PlanAction[], options: ProgressOptions): Progress => {
+  const counted = options.excludeCancelled ? actions.filter((action) => !action.isCancelled) : actions;
+
+  return withPercentages({
+    actionCount: counted.length,
+    doneCount: counted.filter((action) => action.percentComplete >= 100).length,
+    weight: counted.reduce((sum, action) => sum + action.weight, 0),
+    earnedWeight: counted.reduce((sum, action) => sum + (action.weight * action.percentComplete) / 100, 0),
+  });
+};
+
+export const combineProgress = (parts: Progress[]): Progress =>
+  withPercentages(
+    parts.reduce(
+      (totals, part) => ({
+        actionCount: totals.actionCount + part.actionCount,
+        doneCount: totals.doneCount + part.doneCount,
+        weight: totals.weight + part.weight,
+        earnedWeight: totals.earnedWeight + part.earnedWeight,
+      }),
+      { actionCount: 0, doneCount: 0, weight: 0, earnedWeight: 0 },
+    ),
+  );
+
+// Progress rolls up one level at a time: items from their actions, priorities from their
+// items, owners from their priorities.
+export const progressByItem = (
+  items: Array<Pick<PlanItem, 'id'>>,
+  actions: PlanAction[],
+  options: ProgressOptions,
+  historyActionIds: Set<string>,
+): Map<string, Progress> =>
+  new Map(
+    items.map((item) => [
+      item.id,
+      summarizeActions(
+        actions.filter((action) => action.itemId === item.id && !historyActionIds.has(action.id)),
+        options,
+      ),
+    ]),
+  );
+
+export const progressByCategory = (
+  categories: Array<Pick<PriorityCategory, 'id'>>,
+  items: Array<Pick<PlanItem, 'id' | 'categoryId'>>,
+  itemProgress: Map<string, Progress>,
+): Map<string, Progress> =>
+  new Map(
+    categories.map((category) => [
+      category.id,
+      combineProgress(
+        items.filter((item) => item.categoryId === category.id).map((item) => itemProgress.get(item.id) ?? emptyProgress),
+      ),
+    ]),
+  );
+
+// Keyed by the owner's profile id; priorities from before owners were profiles keep their
+// free-text owner as the key.
+export const progressByOwner = (
+  categories: Array<Pick<PriorityCategory, 'id' | 'ownerUserId' | 'owner'>>,
+  categoryProgress: Map<string, Progress>,
+): Map<string, Progress> => {
+  const map = new Map<string, Progress>();
+  for (const category of categories) {
+    const ownerKey = category.ownerUserId ?? category.owner;
+    map.set(ownerKey, combineProgress([map.get(ownerKey) ?? emptyProgress, categoryProgress.get(category.id) ?? emptyProgress]));
+  }
+  return map;
+};
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { RemoteRow } from './adapters/types';
+import { startRealtime, type ChangeChannel, type RealtimeChange, type RealtimeStatus } from './realtime';
+import type { SyncTable } from './types';
+
+const applyRemoteRows = vi.hoisted(() => vi.fn<(table: SyncTable, rows: RemoteRow[]) => Promise<number>>());
+
+vi.mock('./sync', async (importOriginal) => ({ ...(await importOriginal<typeof import('./sync')>()), applyRemoteRows }));
+
+// A channel the test drives by hand: it delivers changes and reports subscription states.
+const stubChannels = () => {
+  const opened: Array<{
+    channel: ChangeChannel;
+    emit: (change: RealtimeChange) => void;
+    report: (status: RealtimeStatus) => void;
+  }> = [];
+  const createChannel = () => {
+    const handlers = new Map<SyncTable, (change: RealtimeChange) => void>();
+    let onStatus: (status: RealtimeStatus) => void = () => undefined;
+    const channel: ChangeChannel = {
+      listen: (table, handler) => handlers.set(table, handler),
+      subscribe: (handler) => {
+        onStatus = handler;
+      },
+      close: vi.fn(),
+    };
+    opened.push({ channel, emit: (change) => handlers.get(change.table)?.(change), report: (status) => onStatus(status) });
+    return channel;
+  };
+  return { opened, createChannel };
+};
+
+const change = (table: SyncTable, id: string, eventType: RealtimeChange['eventType'] = 'UPDATE'): RealtimeChange => ({
+  table,
+  eventType,
+  row: { id, updated_at: '2026-10-01T10:00:00.000Z' },
+  committedAt: '2026-10-01T10:00:05.000Z',
+});
+
+describe('startRealtime', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    applyRemoteRows.mockReset();
+    applyRemoteRows.mockResolvedValue(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('applies the changes of a burst together, one batch per table', async () => {
+    const { opened, createChannel } = stubChannels();
+    const onApplied = vi.fn();
+    const stop = startRealtime({ createChannel, onApplied, onResubscribed: vi.fn(), onApplyFailed: vi.fn() });
+
+    opened[0].emit(change('tags', 'a'));
+    opened[0].emit(change('tags', 'b'));
+    opened[0].emit(change('events', 'c'));
+    expect(applyRemoteRows).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(150);
+    expect(applyRemoteRows).toHaveBeenCalledTimes(2);
+    expect(applyRemoteRows.mock.calls[0][1].map((row) => row.id)).toEqual(['a', 'b']);
+    expect(onApplied).toHaveBeenCalledWith(['tags', 'events']);
+    stop();
+  });
+
+  it('turns a delete into a tombstone stamped with the commit time', async () => {
+    const { opened, createChannel } = stubChannels();
+    const stop = startRealtime({ createChannel, onApplied: vi.fn(), onResubscribed: vi.fn(), onApplyFailed: vi.fn() });
+
+    opened[0].emit(change('actions', 'gone', 'DELETE'));
+    await vi.advanceTimersByTimeAsync(150);
+
+    expect(applyRemoteRows).toHaveBeenCalledWith('actions', [
+      { id: 'gone', updated_at: '2026-10-01T10:00:05.000Z', deleted_at: '2026-10-01T10:00:05.000Z' },
+    ]);
+    stop();
+  });
+
+  it('reopens a dropped channel with backoff and asks for a backfill once it is back', async () => {
+    const { opened, createChannel } = stubChannels();
+    const onResubscribed = vi.fn();
+    const stop = startRealtime({ createChannel, onApplied: vi.fn(), onResubscribed, onApplyFailed: vi.fn() });
+
+    opened[0].report('SUBSCRIBED');
+    expect(onResubscribed).not.toHaveBeenCalled();
+
+    opened[0].report('CHANNEL_ERROR');
+    expect(opened[0].channel.close).toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(999);
+    expect(opened).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(opened).toHaveLength(2);
+
+    opened[1].report('TIMED_OUT');
+    await vi.advanceTimersByTimeAsync(2_000);
+    expect(opened).toHaveLength(3);
+
+    opened[2].report('SUBSCRIBED');
+    expect(onResubscribed).toHaveBeenCalledTimes(1);
+    stop();
+  });
+
+  it('hands a batch that cannot be written to the backfill and still applies the others', async () => {
+    const { opened, createChannel } = stubChannels();
+    const onApplied = vi.fn();
+    const onApplyFailed = vi.fn();
+    const failure = new Error('QuotaExceededError');
+    applyRemoteRows.mockImplementation(async (table) => {
+      if (table === 'tags') {
+        throw failure;
+      }
+      return 0;
+    });
+    const stop = startRealtime({ createChannel, onApplied, onResubscribed: vi.fn(), onApplyFailed });
+
+    opened[0].emit(change('tags', 'a'));
+    opened[0].emit(change('items', 'b'));
+    await vi.advanceTimersByTimeAsync(150);
+
+    expect(onApplyFailed).toHaveBeenCalledWith('tags', failure);
+    expect(onApplied).toHaveBeenCalledWith(['items']);
+    stop();
+  });
+
+  it('stops listening and drops pending changes once stopped', async () => {
+    const { opened, createChannel } = stubChannels();
+    const onApplied = vi.fn();
+    const stop = startRealtime({ createChannel, onApplied, onResubscribed: vi.fn(), onApplyFailed: vi.fn() });
+
+    opened[0].emit(change('tags', 'a'));
+    stop();
+    await vi.advanceTimersByTimeAsync(150);
+
+    expect(opened[0].channel.close).toHaveBeenCalled();
+    expect(applyRemoteRows).not.toHaveBeenCalled();
+    expect(onApplied).not.toHaveBeenCalled();
+  });
+});
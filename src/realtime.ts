@@ -0,0 +1,142 @@
+import type { RemoteRow } from './adapters/types';
+import { applyRemoteRows, tableNames } from './sync';
+import type { SyncTable } from './types';
+
+export type RealtimeStatus = 'SUBSCRIBED' | 'TIMED_OUT' | 'CLOSED' | 'CHANNEL_ERROR';
+
+export type RealtimeChange = {
+  table: SyncTable;
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  row: RemoteRow;
+  committedAt: string;
+};
+
+// The slice of a backend change feed the realtime loop needs, so it can run against a stub.
+export type ChangeChannel = {
+  listen: (table: SyncTable, handler: (change: RealtimeChange) => void) => void;
+  subscribe: (onStatus: (status: RealtimeStatus) => void) => void;
+  close: () => void;
+};
+
+export type ChangeChannelFactory = () => ChangeChannel;
+
+type RealtimeOptions = {
+  createChannel: ChangeChannelFactory;
+  onApplied: (tables: SyncTable[]) => void;
+  onResubscribed: () => void;
+  onApplyFailed: (table: SyncTable, error: unknown) => void;
+};
+
+const minRetryDelayMs = 1_000;
+const maxRetryDelayMs = 30_000;
+const applyDelayMs = 150;
+
+// Keeps one channel open on every synced table and writes incoming rows through the same
+// path as the delta pull. A dropped channel is reopened with backoff and, once it is back,
+// onResubscribed lets the caller backfill whatever changed while it was down. A batch that
+// cannot be written is left to the same backfill through onApplyFailed: the pull cursor never
+// moved past those rows, so the next delta pull brings them back.
+export const startRealtime = ({ createChannel, onApplied, onResubscribed, onApplyFailed }: RealtimeOptions): (() => void) => {
+  let stopped = false;
+  let channel: ChangeChannel | null = null;
+  let retryDelayMs = minRetryDelayMs;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let applyTimer: ReturnType<typeof setTimeout> | null = null;
+  let hasDropped = false;
+  const queued = new Map<SyncTable, RemoteRow[]>();
+
+  const flush = async () => {
+    applyTimer = null;
+    const batches = Array.from(queued.entries());
+    queued.clear();
+    const applied: SyncTable[] = [];
+    for (const [table, rows] of batches) {
+      try {
+        await applyRemoteRows(table, rows);
+        applied.push(table);
+      } catch (error) {
+        if (!stopped) {
+          onApplyFailed(table, error);
+        }
+      }
+    }
+    if (!stopped && applied.length > 0) {
+      onApplied(applied);
+    }
+  };
+
+  const handleChange = (change: RealtimeChange) => {
+    const row: RemoteRow =
+      change.eventType === 'DELETE'
+        ? { ...change.row, updated_at: change.committedAt, deleted_at: change.committedAt }
+        : change.row;
+    queued.set(change.table, [...(queued.get(change.table) ?? []), row]);
+    if (!applyTimer) {
+      applyTimer = setTimeout(() => void flush(), applyDelayMs);
+    }
+  };
+
+  const scheduleRetry = () => {
+    if (stopped || retryTimer) {
+      return;
+    }
+    channel?.close();
+    channel = null;
+    hasDropped = true;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      open();
+    }, retryDelayMs);
+    retryDelayMs = Math.min(retryDelayMs * 2, maxRetryDelayMs);
+  };
+
+  const open = () => {
+    if (stopped) {
+      return;
+    }
+    const next = createChannel();
+    channel = next;
+    for (const table of tableNames) {
+      next.listen(table, handleChange);
+    }
+    next.subscribe((status) => {
+      if (stopped || channel !== next) {
+        return;
+      }
+      if (status === 'SUBSCRIBED') {
+        retryDelayMs = minRetryDelayMs;
+        if (hasDropped) {
+          hasDropped = false;
+          onResubscribed();
+        }
+        return;
+      }
+      scheduleRetry();
+    });
+  };
+
+  const handleOnline = () => {
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+      retryDelayMs = minRetryDelayMs;
+      open();
+    }
+  };
+
+  open();
+  globalThis.addEventListener?.('online', handleOnline);
+
+  return () => {
+    stopped = true;
+    globalThis.removeEventListener?.('online', handleOnline);
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+    }
+    if (applyTimer) {
+      clearTimeout(applyTimer);
+    }
+    channel?.close();
+    channel = null;
+  };
+};
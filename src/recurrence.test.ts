@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildRecurrenceRule,
+  dateInputToUntil,
+  describeRecurrence,
+  emptyRecurrence,
+  parseRecurrence,
+  untilToDateInput,
+} from './recurrence';
+
+const describeRule = (rule: string, start?: Date, timeZone?: string): string => {
+  const recurrence = parseRecurrence(rule);
+  if (!recurrence) {
+    throw new Error(`not a rule: ${rule}`);
+  }
+  return describeRecurrence(recurrence, start, timeZone);
+};
+
+describe('parseRecurrence', () => {
+  it('reads the parts the editor knows', () => {
+    expect(parseRecurrence('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR;BYMONTH=3,9;COUNT=4')).toEqual({
+      ...emptyRecurrence('MONTHLY'),
+      interval: 2,
+      weekdays: ['-1FR'],
+      months: [3, 9],
+      count: 4,
+    });
+  });
+
+  it('finds the rule line among other iCalendar lines', () => {
+    expect(parseRecurrence('DTSTART:20260105T170000Z\nRRULE:FREQ=DAILY;UNTIL=20260131')).toMatchObject({
+      frequency: 'DAILY',
+      until: '20260131',
+    });
+  });
+
+  it('returns null without a known frequency', () => {
+    expect(parseRecurrence(null)).toBeNull();
+    expect(parseRecurrence('RRULE:INTERVAL=2')).toBeNull();
+    expect(parseRecurrence('RRULE:FREQ=FORTNIGHTLY')).toBeNull();
+  });
+});
+
+describe('buildRecurrenceRule', () => {
+  it('keeps parts the editor does not cover through an edit', () => {
+    const recurrence = parseRecurrence('RRULE:FREQ=WEEKLY;BYDAY=MO;WKST=SU;BYHOUR=9');
+    if (!recurrence) {
+      throw new Error('expected a rule');
+    }
+    expect(buildRecurrenceRule({ ...recurrence, interval: 3 })).toBe('RRULE:FREQ=WEEKLY;INTERVAL=3;BYDAY=MO;WKST=SU;BYHOUR=9');
+  });
+
+  it('writes COUNT instead of UNTIL when both are set', () => {
+    expect(buildRecurrenceRule({ ...emptyRecurrence('DAILY'), count: 5, until: '20261231T225959Z' })).toBe(
+      'RRULE:FREQ=DAILY;INTERVAL=1;COUNT=5',
+    );
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('spells out intervals, weekdays and counts', () => {
+    expect(describeRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR;COUNT=10')).toBe(
+      'Ogni 2 settimane il lunedi e il venerdi, per 10 volte',
+    );
+  });
+
+  it('names positions within the month', () => {
+    expect(describeRule('RRULE:FREQ=MONTHLY;BYDAY=FR;BYSETPOS=-1')).toBe("Ogni mese l'ultimo venerdi");
+    expect(describeRule('RRULE:FREQ=MONTHLY;BYDAY=2TU')).toBe('Ogni mese il secondo martedi');
+    expect(describeRule('RRULE:FREQ=MONTHLY;BYMONTHDAY=1,15,-1')).toBe("Ogni mese i giorni 1 e 15 e l'ultimo giorno");
+  });
+
+  it('fills in what the rule leaves to the start date', () => {
+    const monday = new Date(2026, 0, 5, 18);
+    expect(describeRule('RRULE:FREQ=WEEKLY', monday)).toBe('Ogni settimana il lunedi');
+    expect(describeRule('RRULE:FREQ=MONTHLY', monday)).toBe('Ogni mese il giorno 5');
+    expect(describeRule('RRULE:FREQ=YEARLY', monday)).toBe('Ogni anno il 5 gennaio');
+  });
+
+  it('reads the start date in the event zone, not on the device clock', () => {
+    // Monday 5 January at 09:00 in Auckland, still Sunday 4 January in Los Angeles.
+    const start = new Date('2026-01-04T20:00:00.000Z');
+    expect(describeRule('RRULE:FREQ=WEEKLY', start, 'Pacific/Auckland')).toBe('Ogni settimana il lunedi');
+    expect(describeRule('RRULE:FREQ=YEARLY', start, 'Pacific/Auckland')).toBe('Ogni anno il 5 gennaio');
+    expect(describeRule('RRULE:FREQ=WEEKLY', start, 'America/Los_Angeles')).toBe('Ogni settimana la domenica');
+    expect(describeRule('RRULE:FREQ=MONTHLY', start, 'America/Los_Angeles')).toBe('Ogni mese il giorno 4');
+  });
+
+  it('shows the end date in the event zone and flags advanced options', () => {
+    expect(describeRule('RRULE:FREQ=DAILY;UNTIL=20270101T045959Z', undefined, 'America/New_York')).toBe(
+      'Ogni giorno, fino al 31/12/2026',
+    );
+    expect(describeRule('RRULE:FREQ=HOURLY;BYHOUR=9,18')).toBe('Ogni ora (con opzioni avanzate)');
+  });
+});
+
+describe('UNTIL and date inputs', () => {
+  it('ends the series at the end of the chosen day in the event zone', () => {
+    expect(dateInputToUntil('2026-12-31', 'America/New_York')).toBe('20270101T045959Z');
+    expect(dateInputToUntil('2026-07-31', 'Europe/Rome')).toBe('20260731T215959Z');
+  });
+
+  it('reads the day back in the same zone', () => {
+    expect(untilToDateInput('20270101T045959Z', 'America/New_York')).toBe('2026-12-31');
+    expect(untilToDateInput('20260731T215959Z', 'Europe/Rome')).toBe('2026-07-31');
+    expect(untilToDateInput('20261231', 'Asia/Tokyo')).toBe('2026-12-31');
+    expect(untilToDateInput('not a date')).toBe('');
+  });
+});
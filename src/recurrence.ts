@@ -0,0 +1,282 @@
+import { format } from 'date-fns';
+import { deviceTimeZone, fromWallClock, toWallClock } from './timeZones';
+
+// Editable model of an RRULE. Parts this model does not cover (BYHOUR, WKST, BYYEARDAY...)
+// are kept verbatim, so any rule synced from elsewhere survives an edit unchanged.
+
+export type RecurrenceFrequency = 'YEARLY' | 'MONTHLY' | 'WEEKLY' | 'DAILY' | 'HOURLY' | 'MINUTELY' | 'SECONDLY';
+
+export type Recurrence = {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  // BYDAY tokens as written, possibly with an ordinal (-1FR is the last Friday).
+  weekdays: string[];
+  monthDays: number[];
+  months: number[];
+  setPositions: number[];
+  count: number | null;
+  // UNTIL as written in the rule, replaced only when the end date is changed.
+  until: string | null;
+  extraParts: string[];
+};
+
+export const recurrenceFrequencies: RecurrenceFrequency[] = ['YEARLY', 'MONTHLY', 'WEEKLY', 'DAILY', 'HOURLY', 'MINUTELY', 'SECONDLY'];
+
+export const rruleWeekdays = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] as const;
+
+const jsDayToRRuleDay = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+
+const dayNames: Record<string, string> = {
+  MO: 'lunedi',
+  TU: 'martedi',
+  WE: 'mercoledi',
+  TH: 'giovedi',
+  FR: 'venerdi',
+  SA: 'sabato',
+  SU: 'domenica',
+};
+
+export const monthNames = [
+  'gennaio',
+  'febbraio',
+  'marzo',
+  'aprile',
+  'maggio',
+  'giugno',
+  'luglio',
+  'agosto',
+  'settembre',
+  'ottobre',
+  'novembre',
+  'dicembre',
+];
+
+const frequencyUnits: Record<RecurrenceFrequency, [string, string]> = {
+  YEARLY: ['anno', 'anni'],
+  MONTHLY: ['mese', 'mesi'],
+  WEEKLY: ['settimana', 'settimane'],
+  DAILY: ['giorno', 'giorni'],
+  HOURLY: ['ora', 'ore'],
+  MINUTELY: ['minuto', 'minuti'],
+  SECONDLY: ['secondo', 'secondi'],
+};
+
+const ordinalNames: Record<string, string> = {
+  '1': 'primo',
+  '2': 'secondo',
+  '3': 'terzo',
+  '4': 'quarto',
+  '5': 'quinto',
+  '-1': 'ultimo',
+  '-2': 'penultimo',
+};
+
+export const frequencyUnit = (frequency: RecurrenceFrequency, interval: number): string =>
+  frequencyUnits[frequency][interval === 1 ? 0 : 1];
+
+export const ordinalName = (position: number): string =>
+  ordinalNames[String(position)] ?? (position > 0 ? `${position}°` : `${-position}° dalla fine`);
+
+const withArticle = (ordinal: string): string => (ordinal.startsWith('ultimo') ? `l'${ordinal}` : `il ${ordinal}`);
+
+const joinList = (entries: string[]): string =>
+  entries.length > 1 ? `${entries.slice(0, -1).join(', ')} e ${entries[entries.length - 1]}` : (entries[0] ?? '');
+
+const toNumbers = (value: string): number[] =>
+  value
+    .split(',')
+    .map(Number)
+    .filter((entry) => Number.isInteger(entry));
+
+export const splitWeekday = (token: string): { position: number | null; weekday: string } => {
+  const match = /^([+-]?\d+)?([A-Z]{2})$/.exec(token);
+  return { position: match?.[1] ? Number(match[1]) : null, weekday: match?.[2] ?? token };
+};
+
+export const emptyRecurrence = (frequency: RecurrenceFrequency): Recurrence => ({
+  frequency,
+  interval: 1,
+  weekdays: [],
+  monthDays: [],
+  months: [],
+  setPositions: [],
+  count: null,
+  until: null,
+  extraParts: [],
+});
+
+// Null for no rule or for text without a known FREQ.
+export const parseRecurrence = (recurrenceRule: string | null): Recurrence | null => {
+  if (!recurrenceRule) {
+    return null;
+  }
+  const line =
+    recurrenceRule
+      .split(/\r?\n/)
+      .map((entry) => entry.trim())
+      .find((entry) => /(^|:|;)FREQ=/.test(entry)) ?? '';
+  const recurrence = emptyRecurrence('DAILY');
+  let hasFrequency = false;
+
+  for (const part of line.replace(/^RRULE:/, '').split(';').filter(Boolean)) {
+    const [key, value = ''] = part.split('=');
+    switch (key.toUpperCase()) {
+      case 'FREQ': {
+        const frequency = value.toUpperCase() as RecurrenceFrequency;
+        hasFrequency = recurrenceFrequencies.includes(frequency);
+        recurrence.frequency = frequency;
+        break;
+      }
+      case 'INTERVAL':
+        recurrence.interval = Math.max(1, Number(value) || 1);
+        break;
+      case 'COUNT':
+        recurrence.count = Math.max(1, Number(value) || 1);
+        break;
+      case 'UNTIL':
+        recurrence.until = value;
+        break;
+      case 'BYDAY':
+        recurrence.weekdays = value.toUpperCase().split(',').filter(Boolean);
+        break;
+      case 'BYMONTHDAY':
+        recurrence.monthDays = toNumbers(value);
+        break;
+      case 'BYMONTH':
+        recurrence.months = toNumbers(value);
+        break;
+      case 'BYSETPOS':
+        recurrence.setPositions = toNumbers(value);
+        break;
+      default:
+        recurrence.extraParts.push(part);
+    }
+  }
+
+  return hasFrequency ? recurrence : null;
+};
+
+export const buildRecurrenceRule = (recurrence: Recurrence): string => {
+  const parts = [`FREQ=${recurrence.frequency}`, `INTERVAL=${recurrence.interval}`];
+  if (recurrence.months.length > 0) {
+    parts.push(`BYMONTH=${recurrence.months.join(',')}`);
+  }
+  if (recurrence.monthDays.length > 0) {
+    parts.push(`BYMONTHDAY=${recurrence.monthDays.join(',')}`);
+  }
+  if (recurrence.weekdays.length > 0) {
+    parts.push(`BYDAY=${recurrence.weekdays.join(',')}`);
+  }
+  if (recurrence.setPositions.length > 0) {
+    parts.push(`BYSETPOS=${recurrence.setPositions.join(',')}`);
+  }
+  // COUNT and UNTIL are mutually exclusive in RFC 5545.
+  if (recurrence.count !== null) {
+    parts.push(`COUNT=${recurrence.count}`);
+  } else if (recurrence.until) {
+    parts.push(`UNTIL=${recurrence.until}`);
+  }
+  return `RRULE:${[...parts, ...recurrence.extraParts].join(';')}`;
+};
+
+// UNTIL as a yyyy-MM-dd in the event's zone for date inputs, and back as the end of that day.
+export const untilToDateInput = (until: string | null, timeZone = deviceTimeZone()): string => {
+  if (!until) {
+    return '';
+  }
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/.exec(until);
+  if (!match) {
+    return '';
+  }
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  if (!hours || !utc) {
+    return `${year}-${month}-${day}`;
+  }
+  const instant = new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds));
+  return toWallClock(instant, timeZone).toISOString().slice(0, 10);
+};
+
+export const dateInputToUntil = (date: string, timeZone = deviceTimeZone()): string =>
+  fromWallClock(new Date(`${date}T23:59:59Z`), timeZone)
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}Z$/, 'Z');
+
+const describeWeekdays = (recurrence: Recurrence): string => {
+  const tokens = recurrence.weekdays.map(splitWeekday);
+  const { setPositions } = recurrence;
+  const named = (weekday: string) => dayNames[weekday] ?? weekday;
+
+  if (setPositions.length > 0 && tokens.every((token) => token.position === null)) {
+    const positions = withArticle(joinList(setPositions.map(ordinalName)));
+    return tokens.length === 1
+      ? `${positions} ${named(tokens[0].weekday)}`
+      : `${positions} tra ${joinList(tokens.map((token) => named(token.weekday)))}`;
+  }
+
+  return joinList(
+    tokens.map(({ position, weekday }) => {
+      if (position !== null) {
+        return `${withArticle(ordinalName(position))} ${named(weekday)}`;
+      }
+      return `${weekday === 'SU' ? 'la' : 'il'} ${named(weekday)}`;
+    }),
+  );
+};
+
+const describeMonthDays = (monthDays: number[]): string => {
+  const positive = monthDays.filter((day) => day > 0);
+  const fromEnd = monthDays.filter((day) => day < 0).map((day) => `${withArticle(ordinalName(day))} giorno`);
+  const days = positive.length > 0 ? [`${positive.length > 1 ? 'i giorni' : 'il giorno'} ${joinList(positive.map(String))}`] : [];
+  return joinList([...days, ...fromEnd]);
+};
+
+// Italian summary, e.g. "Ogni 2 settimane il lunedi e il venerdi, per 10 volte". With start,
+// the parts the rule leaves to DTSTART (weekday, day of month) are spelled out too, as they
+// fall in the event zone.
+export const describeRecurrence = (recurrence: Recurrence, start?: Date, timeZone = deviceTimeZone()): string => {
+  const { frequency, interval, weekdays, monthDays, months } = recurrence;
+  const wallClock = start && toWallClock(start, timeZone);
+  const unit = frequencyUnit(frequency, interval);
+  const parts = [interval === 1 ? `Ogni ${unit}` : `Ogni ${interval} ${unit}`];
+
+  const monthList = joinList(months.map((month) => monthNames[month - 1] ?? String(month)));
+  if (frequency === 'YEARLY' && weekdays.length === 0 && monthDays.length <= 1 && months.length <= 1) {
+    const day = monthDays[0] ?? wallClock?.getUTCDate();
+    const month = months.length > 0 ? monthList : wallClock ? monthNames[wallClock.getUTCMonth()] : '';
+    if (day !== undefined && day > 0 && month) {
+      parts.push(`il ${day} ${month}`);
+    } else if (day !== undefined && month) {
+      parts.push(`${describeMonthDays([day])} di ${month}`);
+    } else if (month) {
+      parts.push(`a ${month}`);
+    }
+  } else {
+    if (months.length > 0) {
+      parts.push(`a ${monthList}`);
+    }
+    if (weekdays.length > 0) {
+      parts.push(describeWeekdays(recurrence));
+    } else if (monthDays.length > 0) {
+      parts.push(describeMonthDays(monthDays));
+    } else if (wallClock && frequency === 'WEEKLY') {
+      parts.push(describeWeekdays({ ...recurrence, weekdays: [jsDayToRRuleDay[wallClock.getUTCDay()]], setPositions: [] }));
+    } else if (wallClock && (frequency === 'MONTHLY' || frequency === 'YEARLY')) {
+      parts.push(describeMonthDays([wallClock.getUTCDate()]));
+    }
+  }
+
+  let description = parts.join(' ');
+  if (recurrence.count !== null) {
+    description += `, per ${recurrence.count} ${recurrence.count === 1 ? 'volta' : 'volte'}`;
+  } else if (recurrence.until) {
+    const untilDate = untilToDateInput(recurrence.until, timeZone);
+    if (untilDate) {
+      description += `, fino al ${format(new Date(`${untilDate}T00:00:00`), 'dd/MM/yyyy')}`;
+    }
+  }
+  if (recurrence.extraParts.length > 0) {
+    description += ' (con opzioni avanzate)';
+  }
+  return description;
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { eventAssigneeAt, nextInRotation, occurrenceForReminder, swapInRotation } from './rotation';
+import type { CalendarEvent } from './types';
+
+// Every Monday at 18:00 in Rome, first on 5 January 2026 (17:00 UTC in winter).
+const weeklyChores = (changes: Partial<CalendarEvent> = {}): CalendarEvent => ({
+  id: 'chores',
+  categoryId: null,
+  title: 'Pulizie',
+  description: '',
+  startsAt: '2026-01-05T17:00:00.000Z',
+  endsAt: '2026-01-05T18:00:00.000Z',
+  timeZone: 'Europe/Rome',
+  allDay: false,
+  startDate: null,
+  endDate: null,
+  recurrenceRule: 'RRULE:FREQ=WEEKLY;INTERVAL=1',
+  exceptionDates: [],
+  seriesEventId: null,
+  recurrenceId: null,
+  seriesGroupId: null,
+  reminders: [],
+  mentionUserIds: [],
+  rotationUserIds: ['anna', 'bruno', 'carla'],
+  rotationOffset: 0,
+  rotationSkips: [],
+  tagIds: [],
+  color: '#2563eb',
+  colorName: null,
+  attachmentName: null,
+  attachmentDataUrl: null,
+  createdAt: '2026-01-01T10:00:00.000Z',
+  updatedAt: '2026-01-01T10:00:00.000Z',
+  ...changes,
+});
+
+const week = (index: number): Date => {
+  const winter = new Date(Date.UTC(2026, 0, 5 + 7 * index, 17));
+  // From 29 March Rome is on summer time, so 18:00 is 16:00 UTC.
+  return winter >= new Date('2026-03-29T00:00:00.000Z') && winter < new Date('2026-10-25T00:00:00.000Z')
+    ? new Date(winter.getTime() - 3600000)
+    : winter;
+};
+
+describe('eventAssigneeAt', () => {
+  it('passes the turn to the next member at every occurrence, across DST', () => {
+    const event = weeklyChores();
+    expect([0, 1, 2, 3, 12, 13, 14].map((index) => eventAssigneeAt(event, week(index)))).toEqual([
+      'anna',
+      'bruno',
+      'carla',
+      'anna',
+      'anna',
+      'bruno',
+      'carla',
+    ]);
+  });
+
+  it('starts from the member the offset points at', () => {
+    expect(eventAssigneeAt(weeklyChores({ rotationOffset: 2 }), week(0))).toBe('carla');
+  });
+
+  it('shifts a skipped turn and the later ones, never the earlier ones', () => {
+    const event = weeklyChores({ rotationSkips: [week(2).toISOString()] });
+    expect([0, 1, 2, 3].map((index) => eventAssigneeAt(event, week(index)))).toEqual(['anna', 'bruno', 'anna', 'bruno']);
+  });
+
+  it('gives the same answer however far apart the lookups are', () => {
+    const event = weeklyChores();
+    const far = eventAssigneeAt(event, week(300));
+    expect(eventAssigneeAt(event, week(1))).toBe('bruno');
+    expect(eventAssigneeAt(event, week(300))).toBe(far);
+    expect(far).toBe(['anna', 'bruno', 'carla'][300 % 3]);
+  });
+
+  it('has nobody on turn without a rotation', () => {
+    expect(eventAssigneeAt(weeklyChores({ rotationUserIds: [] }), week(0))).toBeNull();
+  });
+});
+
+describe('occurrenceForReminder', () => {
+  it('ties a reminder to the first occurrence at or after it', () => {
+    expect(occurrenceForReminder(weeklyChores(), new Date(week(3).getTime() - 3600000))).toEqual(week(3));
+  });
+
+  it('ties a one-off reminder to the event itself', () => {
+    expect(occurrenceForReminder(weeklyChores({ recurrenceRule: null }), week(5))).toEqual(week(0));
+  });
+});
+
+describe('nextInRotation and swapInRotation', () => {
+  it('wraps around and starts over for someone outside the rotation', () => {
+    expect(nextInRotation(['anna', 'bruno'], 'bruno')).toBe('anna');
+    expect(nextInRotation(['anna', 'bruno'], 'zeno')).toBe('anna');
+    expect(nextInRotation([], 'anna')).toBeNull();
+  });
+
+  it('exchanges the places of two members', () => {
+    expect(swapInRotation(['anna', 'bruno', 'carla'], 'anna', 'carla')).toEqual(['carla', 'bruno', 'anna']);
+  });
+});
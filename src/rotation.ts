@@ -0,0 +1,85 @@
+import { eventRule, eventTimeZone } from './timeZones';
+import type { CalendarEvent } from './types';
+
+// Whose turn follows userId; the first member when userId is not part of the rotation.
+export const nextInRotation = (rotationUserIds: string[], userId: string | null): string | null => {
+  if (rotationUserIds.length === 0) {
+    return null;
+  }
+  const index = userId ? rotationUserIds.indexOf(userId) : -1;
+  return rotationUserIds[(index + 1) % rotationUserIds.length];
+};
+
+// A swap exchanges the two members' places, so whoever covers this turn hands their own
+// next turn back to the other.
+export const swapInRotation = (rotationUserIds: string[], first: string, second: string): string[] =>
+  rotationUserIds.map((userId) => (userId === first ? second : userId === second ? first : userId));
+
+// Starts of a series' occurrences, expanded once and then only past the furthest one asked
+// for, so finding a turn does not replay the whole series on every lookup.
+type ExpandedSeries = { starts: number[]; through: number };
+
+const expandedSeries = new Map<string, ExpandedSeries>();
+const maxExpandedSeries = 200;
+const expansionStepMs = 366 * 86400000;
+
+const occurrenceIndex = (event: CalendarEvent, occurrenceStart: Date): number => {
+  const rule = eventRule(event);
+  if (!rule) {
+    return 0;
+  }
+  const key = [event.id, event.startsAt, eventTimeZone(event), event.recurrenceRule].join('|');
+  let series = expandedSeries.get(key);
+  if (!series) {
+    if (expandedSeries.size >= maxExpandedSeries) {
+      expandedSeries.clear();
+    }
+    series = { starts: [], through: new Date(event.startsAt).getTime() - 1 };
+    expandedSeries.set(key, series);
+  }
+
+  const target = occurrenceStart.getTime();
+  if (target > series.through) {
+    const from = series.through;
+    const through = Math.max(target, from + expansionStepMs);
+    const starts = rule
+      .between(new Date(from), new Date(through), true)
+      .map((occurrence) => occurrence.getTime())
+      .filter((start) => start > from);
+    series.starts = series.starts.concat(starts);
+    series.through = through;
+  }
+
+  // Occurrences starting at or before the target, found by binary search.
+  let low = 0;
+  let high = series.starts.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (series.starts[middle] <= target) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return Math.max(0, low - 1);
+};
+
+// Occurrence k of a series (counted from its first occurrence) belongs to member
+// (k + rotationOffset + skips) mod n, where skips counts the turns skipped at or before it:
+// a skip moves that occurrence and the later ones on by one member, never the earlier ones.
+export const eventAssigneeAt = (event: CalendarEvent, occurrenceStart: Date): string | null => {
+  const { rotationUserIds, rotationOffset, rotationSkips } = event;
+  if (rotationUserIds.length === 0) {
+    return null;
+  }
+  const index = occurrenceIndex(event, occurrenceStart);
+  const skips = rotationSkips.filter((from) => new Date(from).getTime() <= occurrenceStart.getTime()).length;
+  const count = rotationUserIds.length;
+  return rotationUserIds[(((index + rotationOffset + skips) % count) + count) % count];
+};
+
+// The occurrence a reminder belongs to: the first one starting at or after it.
+export const occurrenceForReminder = (event: CalendarEvent, reminderAt: Date): Date | null => {
+  const rule = eventRule(event);
+  return rule ? rule.after(reminderAt, true) : new Date(event.startsAt);
+};
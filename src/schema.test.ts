@@ -0,0 +1,106 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db } from './db';
+import { decodeRow, encodeRow, toColumn } from './schema';
+import { applyRemoteRows } from './sync';
+
+const remoteAction = {
+  id: 'action-1',
+  category_id: 'category-1',
+  item_id: 'item-1',
+  title: 'Prenotare il dentista',
+  created_at: '2026-10-01T10:00:00.000Z',
+  updated_at: '2026-10-01T10:00:00.000Z',
+};
+
+describe('decodeRow', () => {
+  it('maps columns to fields and fills the missing ones with their defaults', () => {
+    const decoded = decodeRow('actions', { ...remoteAction, weight: null });
+
+    expect(decoded).toEqual({
+      ok: true,
+      row: expect.objectContaining({
+        id: 'action-1',
+        categoryId: 'category-1',
+        percentComplete: 0,
+        weight: 1,
+        isCancelled: false,
+        blockedByIds: [],
+        dueDate: null,
+      }),
+    });
+  });
+
+  it('reports every column that does not match its field', () => {
+    const decoded = decodeRow('actions', { ...remoteAction, title: undefined, percent_complete: 140 });
+
+    expect(decoded).toEqual({
+      ok: false,
+      errors: ['title: valore non valido (mancante)', 'percent_complete: valore non valido (140)'],
+    });
+  });
+
+  it('does not share default lists between rows', () => {
+    const first = decodeRow('actions', remoteAction);
+    const second = decodeRow('actions', remoteAction);
+    if (!first.ok || !second.ok) {
+      throw new Error('expected valid rows');
+    }
+    expect(first.row.tagIds).not.toBe(second.row.tagIds);
+  });
+});
+
+describe('encodeRow', () => {
+  it('writes every schema column in snake_case, defaulting what the local row lacks', () => {
+    const encoded = encodeRow('subtasks', {
+      id: 'subtask-1',
+      actionId: 'action-1',
+      title: 'Chiamare',
+      createdAt: '2026-10-01T10:00:00.000Z',
+      updatedAt: '2026-10-01T10:00:00.000Z',
+      localOnly: true,
+    });
+
+    expect(encoded).toEqual({
+      id: 'subtask-1',
+      action_id: 'action-1',
+      title: 'Chiamare',
+      is_done: false,
+      position: 0,
+      created_at: '2026-10-01T10:00:00.000Z',
+      updated_at: '2026-10-01T10:00:00.000Z',
+    });
+  });
+
+  it('round-trips through decodeRow', () => {
+    const decoded = decodeRow('actions', remoteAction);
+    if (!decoded.ok) {
+      throw new Error('expected a valid row');
+    }
+    expect(decodeRow('actions', encodeRow('actions', decoded.row))).toEqual(decoded);
+  });
+
+  it('names columns the way supabase/schema.sql does', () => {
+    expect(toColumn('rotationUserIds')).toBe('rotation_user_ids');
+  });
+});
+
+describe('quarantine', () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map((table) => table.clear()));
+  });
+
+  it('parks invalid server rows instead of storing them and lifts them on a valid version', async () => {
+    const invalid = { ...remoteAction, percent_complete: 'half' };
+
+    expect(await applyRemoteRows('actions', [invalid])).toBe(1);
+    expect(await db.actions.get('action-1')).toBeUndefined();
+    expect(await db.quarantine.get(['actions', 'action-1'])).toMatchObject({
+      errors: ['percent_complete: valore non valido ("half")'],
+    });
+
+    expect(await applyRemoteRows('actions', [{ ...remoteAction, percent_complete: 50 }])).toBe(0);
+    expect(await db.actions.get('action-1')).toMatchObject({ percentComplete: 50 });
+    expect(await db.quarantine.count()).toBe(0);
+  });
+});
@@ -0,0 +1,175 @@
+import type { SyncTable } from './types';
+
+// One declaration per synced entity drives the local types, the camelCase <-> snake_case
+// mapping and the validation of rows coming from the server. Adding a column means adding
+// it here and in supabase/schema.sql.
+
+type Field<T> = {
+  check: (value: unknown) => value is T;
+  fallback?: T;
+};
+
+type Fields = Record<string, Field<unknown>>;
+
+export type EntityOf<F extends Fields> = { [K in keyof F]: F[K] extends Field<infer T> ? T : never };
+
+export type DecodeResult = { ok: true; row: Record<string, unknown> } | { ok: false; errors: string[] };
+
+const isText = (value: unknown): value is string => typeof value === 'string';
+
+const isId = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+const isTimestamp = (value: unknown): value is string => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+const isDay = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const isPercent = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 100;
+
+const isWeight = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const isInteger = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value);
+
+const isDayCount = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+const isTextList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isText);
+
+const field = <T>(check: (value: unknown) => value is T, fallback?: T): Field<T> => ({ check, fallback });
+
+const nullable = <T>({ check }: Field<T>): Field<T | null> => ({
+  check: (value): value is T | null => value === null || check(value),
+  fallback: null,
+});
+
+const text = field(isText);
+const id = field(isId);
+const timestamp = field(isTimestamp);
+const textList = field(isTextList, []);
+
+const timestamps = {
+  createdAt: timestamp,
+  updatedAt: timestamp,
+};
+
+export const entitySchemas = {
+  profiles: {
+    id,
+    email: nullable(text),
+    displayName: text,
+    ...timestamps,
+  },
+  tags: {
+    id,
+    name: text,
+    color: text,
+    ...timestamps,
+  },
+  categories: {
+    id,
+    title: text,
+    owner: text,
+    ownerUserId: nullable(id),
+    color: text,
+    colorName: nullable(text),
+    tagIds: textList,
+    ...timestamps,
+  },
+  items: {
+    id,
+    categoryId: id,
+    title: text,
+    ...timestamps,
+  },
+  actions: {
+    id,
+    categoryId: id,
+    itemId: id,
+    title: text,
+    percentComplete: field(isPercent, 0),
+    weight: field(isWeight, 1),
+    isCancelled: field(isBoolean, false),
+    progressFromSubtasks: field(isBoolean, false),
+    blockedByIds: textList,
+    recurrenceRule: nullable(text),
+    repeatAfterDays: nullable(field(isDayCount)),
+    seriesId: nullable(id),
+    rotationUserIds: textList,
+    assigneeUserId: nullable(id),
+    assigneeUserIds: textList,
+    tagIds: textList,
+    dueDate: nullable(timestamp),
+    reminders: textList,
+    mentionUserIds: textList,
+    ...timestamps,
+  },
+  subtasks: {
+    id,
+    actionId: id,
+    title: text,
+    isDone: field(isBoolean, false),
+    position: field(isInteger, 0),
+    ...timestamps,
+  },
+  events: {
+    id,
+    categoryId: nullable(id),
+    title: text,
+    description: field(isText, ''),
+    startsAt: timestamp,
+    endsAt: timestamp,
+    timeZone: nullable(text),
+    allDay: field(isBoolean, false),
+    startDate: nullable(field(isDay)),
+    endDate: nullable(field(isDay)),
+    recurrenceRule: nullable(text),
+    exceptionDates: textList,
+    seriesEventId: nullable(id),
+    recurrenceId: nullable(timestamp),
+    seriesGroupId: nullable(id),
+    reminders: textList,
+    mentionUserIds: textList,
+    rotationUserIds: textList,
+    rotationOffset: field(isInteger, 0),
+    rotationSkips: textList,
+    tagIds: textList,
+    color: text,
+    colorName: nullable(text),
+    attachmentName: nullable(text),
+    attachmentDataUrl: nullable(text),
+    ...timestamps,
+  },
+} satisfies Record<SyncTable, Fields>;
+
+export const toColumn = (key: string): string => key.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`);
+
+const schemaFields = (table: SyncTable): Array<[string, Field<unknown>]> => Object.entries(entitySchemas[table]);
+
+export const encodeRow = (table: SyncTable, local: Record<string, unknown>): Record<string, unknown> =>
+  Object.fromEntries(
+    schemaFields(table).map(([key, spec]) => [
+      toColumn(key),
+      local[key] === undefined ? structuredClone(spec.fallback ?? null) : local[key],
+    ]),
+  );
+
+// Missing or null columns take the field default when there is one; anything that still
+// does not match its field is reported instead of reaching IndexedDB.
+export const decodeRow = (table: SyncTable, remote: Record<string, unknown>): DecodeResult => {
+  const row: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  for (const [key, spec] of schemaFields(table)) {
+    const column = toColumn(key);
+    const raw = remote[column];
+    const value = (raw === undefined || raw === null) && spec.fallback !== undefined ? structuredClone(spec.fallback) : raw;
+    if (!spec.check(value)) {
+      errors.push(`${column}: valore non valido (${JSON.stringify(raw) ?? 'mancante'})`);
+      continue;
+    }
+    row[key] = value;
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, row };
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { splitSeries } from './seriesSplit';
+import { eventRule } from './timeZones';
+import type { CalendarEvent } from './types';
+
+// Every day at 18:00 in Rome from 1 October 2026 (16:00 UTC on summer time).
+const daily = (changes: Partial<CalendarEvent> = {}): CalendarEvent => ({
+  id: 'daily',
+  categoryId: null,
+  title: 'Allenamento',
+  description: '',
+  startsAt: '2026-10-01T16:00:00.000Z',
+  endsAt: '2026-10-01T17:00:00.000Z',
+  timeZone: 'Europe/Rome',
+  allDay: false,
+  startDate: null,
+  endDate: null,
+  recurrenceRule: 'RRULE:FREQ=DAILY;INTERVAL=1',
+  exceptionDates: [],
+  seriesEventId: null,
+  recurrenceId: null,
+  seriesGroupId: null,
+  reminders: [],
+  mentionUserIds: [],
+  rotationUserIds: [],
+  rotationOffset: 0,
+  rotationSkips: [],
+  tagIds: [],
+  color: '#2563eb',
+  colorName: null,
+  attachmentName: null,
+  attachmentDataUrl: null,
+  createdAt: '2026-09-01T10:00:00.000Z',
+  updatedAt: '2026-09-01T10:00:00.000Z',
+  ...changes,
+});
+
+const fourth = new Date('2026-10-04T16:00:00.000Z');
+
+const followingFrom = (existing: CalendarEvent, startsAt: string): CalendarEvent => ({
+  ...existing,
+  id: 'following',
+  title: 'Allenamento serale',
+  startsAt,
+  endsAt: new Date(new Date(startsAt).getTime() + 3600000).toISOString(),
+  exceptionDates: [],
+  updatedAt: '2026-10-02T08:00:00.000Z',
+});
+
+const allOccurrences = (event: CalendarEvent): string[] =>
+  eventRule(event)
+    ?.between(new Date('2026-09-01T00:00:00.000Z'), new Date('2027-01-01T00:00:00.000Z'), true)
+    .map((occurrence) => occurrence.toISOString()) ?? [];
+
+describe('splitSeries', () => {
+  it('gives the following part only the occurrences a COUNT series has left', () => {
+    const existing = daily({ recurrenceRule: 'RRULE:FREQ=DAILY;INTERVAL=1;COUNT=10' });
+    const { capped, following } = splitSeries(existing, fourth, followingFrom(existing, fourth.toISOString()), []);
+
+    expect(following.recurrenceRule).toBe('RRULE:FREQ=DAILY;INTERVAL=1;COUNT=7');
+    expect(allOccurrences(capped)).toHaveLength(3);
+    expect(allOccurrences(following)).toHaveLength(7);
+    expect(allOccurrences(following).at(-1)).toBe('2026-10-10T16:00:00.000Z');
+  });
+
+  it('keeps the end date of an UNTIL series for the following part', () => {
+    // 15 October at 23:59:59 in Rome.
+    const existing = daily({ recurrenceRule: 'RRULE:FREQ=DAILY;INTERVAL=1;UNTIL=20261015T215959Z' });
+    const { capped, following } = splitSeries(existing, fourth, followingFrom(existing, fourth.toISOString()), []);
+
+    expect(capped.recurrenceRule).toBe('RRULE:FREQ=DAILY;INTERVAL=1;UNTIL=20261004T155959Z');
+    expect(following.recurrenceRule).toBe(existing.recurrenceRule);
+    expect([...allOccurrences(capped), ...allOccurrences(following)]).toHaveLength(15);
+  });
+
+  it('moves deleted days and edited occurrences past the split by the same shift', () => {
+    const existing = daily({ exceptionDates: ['2026-10-02', '2026-10-06'] });
+    const edited = (id: string, recurrenceId: string): CalendarEvent =>
+      daily({ id, seriesEventId: 'daily', recurrenceId, startsAt: recurrenceId, recurrenceRule: null });
+    const overrides = [edited('early', '2026-10-02T16:00:00.000Z'), edited('late', '2026-10-08T16:00:00.000Z')];
+    // The edited occurrence moves one day later.
+    const { capped, following, moved } = splitSeries(
+      existing,
+      fourth,
+      followingFrom(existing, '2026-10-05T16:00:00.000Z'),
+      overrides,
+    );
+
+    expect(capped.exceptionDates).toEqual(['2026-10-02']);
+    expect(following.exceptionDates).toEqual(['2026-10-07']);
+    expect(capped.seriesGroupId).toBe('daily');
+    expect(following.seriesGroupId).toBe('daily');
+    expect(moved.map(({ id, seriesEventId, recurrenceId }) => ({ id, seriesEventId, recurrenceId }))).toEqual([
+      { id: 'late', seriesEventId: 'following', recurrenceId: '2026-10-09T16:00:00.000Z' },
+    ]);
+  });
+});
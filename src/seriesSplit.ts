@@ -0,0 +1,73 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { buildRecurrenceRule, parseRecurrence } from './recurrence';
+import { eventRule, eventTimeZone, zonedDayIso } from './timeZones';
+import type { CalendarEvent } from './types';
+
+const toRRuleUtcDateTime = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}Z$/, 'Z');
+
+export const capRecurrenceRule = (recurrenceRule: string, until: Date): string => {
+  const cleaned = recurrenceRule
+    .replace(/^RRULE:/, '')
+    .replace(/;UNTIL=[^;]+/g, '')
+    .replace(/;COUNT=[^;]+/g, '');
+  return `RRULE:${cleaned};UNTIL=${toRRuleUtcDateTime(until)}`;
+};
+
+export type SeriesSplit = {
+  capped: CalendarEvent;
+  following: CalendarEvent;
+  moved: CalendarEvent[];
+};
+
+// COUNT covers the whole series, so the following part only gets what the first one left.
+const remainingRule = (existing: CalendarEvent, from: Date, recurrenceRule: string | null): string | null => {
+  const recurrence = parseRecurrence(recurrenceRule);
+  const rule = eventRule(existing);
+  if (!recurrence?.count || !rule) {
+    return recurrenceRule;
+  }
+  const before = rule.between(new Date(existing.startsAt), new Date(from.getTime() - 1), true).length;
+  return buildRecurrenceRule({ ...recurrence, count: Math.max(1, recurrence.count - before) });
+};
+
+// "This and following": the series ends right before the occurrence at `from` and `following`
+// takes over from there. Deleted days and edited occurrences past the split move along by
+// the same shift, and both parts share a seriesGroupId.
+export const splitSeries = (
+  existing: CalendarEvent,
+  from: Date,
+  following: CalendarEvent,
+  overrides: CalendarEvent[],
+): SeriesSplit => {
+  const groupId = existing.seriesGroupId ?? existing.id;
+  const shiftMs = new Date(following.startsAt).getTime() - from.getTime();
+  const shiftDays = differenceInCalendarDays(new Date(following.startsAt), from);
+  const fromDayIso = zonedDayIso(from, eventTimeZone(existing));
+
+  return {
+    capped: {
+      ...existing,
+      recurrenceRule: existing.recurrenceRule && capRecurrenceRule(existing.recurrenceRule, new Date(from.getTime() - 1000)),
+      exceptionDates: existing.exceptionDates.filter((day) => day < fromDayIso),
+      seriesGroupId: groupId,
+      updatedAt: following.updatedAt,
+    },
+    following: {
+      ...following,
+      recurrenceRule: remainingRule(existing, from, following.recurrenceRule),
+      exceptionDates: existing.exceptionDates
+        .filter((day) => day >= fromDayIso)
+        .map((day) => format(addDays(parseISO(day), shiftDays), 'yyyy-MM-dd')),
+      seriesGroupId: groupId,
+    },
+    moved: overrides
+      .filter((override) => override.seriesEventId === existing.id && (override.recurrenceId ?? '') >= from.toISOString())
+      .map((override) => ({
+        ...override,
+        seriesEventId: following.id,
+        recurrenceId: new Date(new Date(override.recurrenceId ?? override.startsAt).getTime() + shiftMs).toISOString(),
+        updatedAt: following.updatedAt,
+      })),
+  };
+};
@@ -1,10 +1,38 @@
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { db } from './db';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL as string | undefined;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY as string | undefined;
 
 export const isSupabaseEnabled = Boolean(supabaseUrl && supabaseAnonKey);
 
+const authSettingKey = (key: string) => `supabaseAuth:${key}`;
+
+// The session lives in IndexedDB instead of localStorage so the service worker, which has
+// no localStorage, can sync with the same login. Sessions saved by older builds move over
+// on first read.
+const authStorage = {
+  getItem: async (key: string): Promise<string | null> => {
+    const stored = await db.settings.get(authSettingKey(key));
+    if (stored) {
+      return stored.value as string;
+    }
+
+    const legacy = typeof localStorage === 'undefined' ? null : localStorage.getItem(key);
+    if (legacy !== null) {
+      await db.settings.put({ key: authSettingKey(key), value: legacy });
+      localStorage.removeItem(key);
+    }
+    return legacy;
+  },
+  setItem: async (key: string, value: string): Promise<void> => {
+    await db.settings.put({ key: authSettingKey(key), value });
+  },
+  removeItem: async (key: string): Promise<void> => {
+    await db.settings.delete(authSettingKey(key));
+  },
+};
+
 export const supabase: SupabaseClient | null = isSupabaseEnabled
-  ? createClient(supabaseUrl!, supabaseAnonKey!)
+  ? createClient(supabaseUrl!, supabaseAnonKey!, { auth: { storage: authStorage } })
   : null;
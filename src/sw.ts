@@ -1,6 +1,10 @@
 /// <reference lib="webworker" />
 import { clientsClaim } from 'workbox-core';
 import { precacheAndRoute } from 'workbox-precaching';
+import { syncAdapter } from './adapters';
+import { backgroundSyncTag, periodicSyncTag, type SyncedMessage } from './backgroundSync';
+import { db } from './db';
+import { syncAll } from './sync';
 
 declare let self: ServiceWorkerGlobalScope & {
   __WB_MANIFEST: Array<{
@@ -9,6 +13,11 @@ declare let self: ServiceWorkerGlobalScope & {
   }>;
 };
 
+type SyncEvent = ExtendableEvent & {
+  tag: string;
+  lastChance?: boolean;
+};
+
 precacheAndRoute(self.__WB_MANIFEST);
 self.skipWaiting();
 clientsClaim();
@@ -81,3 +90,36 @@ self.addEventListener('notificationclick', (event) => {
     })(),
   );
 });
+
+const runBackgroundSync = async (retryOnPending: boolean) => {
+  if (!syncAdapter || !(await syncAdapter.auth.getSession())) {
+    return;
+  }
+
+  const { tables } = await syncAll({ source: 'background' });
+  const message: SyncedMessage = { type: 'PLANEST_SYNCED', payload: { tables, syncedAt: new Date().toISOString() } };
+  const allClients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  for (const client of allClients) {
+    client.postMessage(message);
+  }
+
+  // Whatever is still queued failed with a transient error: rejecting makes the browser
+  // schedule the sync again.
+  if (retryOnPending && (await db.mutations.count()) > 0) {
+    throw new Error('Modifiche ancora in coda');
+  }
+};
+
+self.addEventListener('sync', (event) => {
+  const syncEvent = event as SyncEvent;
+  if (syncEvent.tag === backgroundSyncTag) {
+    syncEvent.waitUntil(runBackgroundSync(!syncEvent.lastChance));
+  }
+});
+
+self.addEventListener('periodicsync', (event) => {
+  const syncEvent = event as SyncEvent;
+  if (syncEvent.tag === periodicSyncTag) {
+    syncEvent.waitUntil(runBackgroundSync(false));
+  }
+});
@@ -0,0 +1,186 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ChangeCursor, RemoteRow, SyncAdapter, SyncFailure } from './adapters/types';
+import { db } from './db';
+import { classifySyncError, enqueueMutation, syncAll } from './sync';
+import type { Mutation } from './types';
+
+// An in-memory backend that pages like the real ones: (updated_at, id) keyset order.
+const server = vi.hoisted(() => ({
+  rows: new Map<string, Array<Record<string, unknown> & { id: string; updated_at: string }>>(),
+  upsertFailure: null as SyncFailure | null,
+  pageRequests: [] as Array<{ table: string; after: { updatedAt: string; id: string } | null; withCount: boolean }>,
+  clock: 0,
+}));
+
+const adapter = vi.hoisted(() => ({}) as SyncAdapter);
+
+vi.mock('./adapters', () => ({ syncAdapter: adapter, isSyncEnabled: true }));
+
+const rowsOf = (table: string) => server.rows.get(table) ?? [];
+
+const stamp = () => new Date(Date.UTC(2026, 9, 1) + (server.clock += 1000)).toISOString();
+
+const compareRows = (left: RemoteRow, right: RemoteRow) =>
+  left.updated_at === right.updated_at ? left.id.localeCompare(right.id) : left.updated_at.localeCompare(right.updated_at);
+
+const isAfter = (row: RemoteRow, after: ChangeCursor | null) =>
+  !after || row.updated_at > after.updatedAt || (row.updated_at === after.updatedAt && row.id > after.id);
+
+Object.assign(adapter, {
+  kind: 'http',
+  fetchRows: async (table, ids) => ({ data: rowsOf(table).filter((row) => ids.includes(row.id)), error: null }),
+  fetchChanges: async (table, after, limit, withCount) => {
+    server.pageRequests.push({ table, after, withCount });
+    const matching = rowsOf(table)
+      .filter((row) => isAfter(row, after))
+      .sort(compareRows);
+    return { data: { rows: matching.slice(0, limit), remaining: withCount ? matching.length : null }, error: null };
+  },
+  upsertRows: async (table, rows) => {
+    if (server.upsertFailure) {
+      return { data: null, error: server.upsertFailure };
+    }
+    const stored = rows.map((row) => ({ ...row, id: String(row.id), updated_at: stamp() }));
+    server.rows.set(table, [...rowsOf(table).filter((row) => !stored.some((entry) => entry.id === row.id)), ...stored]);
+    return { data: stored, error: null };
+  },
+  deleteRows: async () => ({ data: null, error: null }),
+  createChannel: () => ({ listen: () => undefined, subscribe: () => undefined, close: () => undefined }),
+  auth: {} as SyncAdapter['auth'],
+} satisfies Partial<SyncAdapter>);
+
+const remoteTag = (id: string, updatedAt: string) => ({
+  id,
+  name: `tag ${id}`,
+  color: '#000000',
+  created_at: updatedAt,
+  updated_at: updatedAt,
+});
+
+const tagMutation = (id: string, name: string): Mutation => ({
+  table: 'tags',
+  op: 'upsert',
+  payload: { id, name, color: '#000000', createdAt: '2026-10-01T00:00:00.000Z', updatedAt: '2026-10-01T00:00:00.000Z' },
+  createdAt: new Date().toISOString(),
+  attempts: 0,
+  lastError: null,
+});
+
+beforeEach(async () => {
+  await Promise.all(db.tables.map((table) => table.clear()));
+  server.rows.clear();
+  server.upsertFailure = null;
+  server.pageRequests = [];
+  server.clock = 0;
+});
+
+describe('classifySyncError', () => {
+  it('retries network, timeout, rate limit and server errors', () => {
+    for (const status of [0, 408, 429, 500, 503]) {
+      expect(classifySyncError({ message: '', status })).toBe('transient');
+    }
+    expect(classifySyncError({ message: '', code: '40001', status: 409 })).toBe('transient');
+  });
+
+  it('keeps an expired session apart from failures that count as attempts', () => {
+    expect(classifySyncError({ message: '', status: 401 })).toBe('auth');
+    expect(classifySyncError({ message: '', code: 'PGRST301', status: 403 })).toBe('auth');
+  });
+
+  it('gives up on rows the server rejects', () => {
+    expect(classifySyncError({ message: '', code: '23505', status: 409 })).toBe('permanent');
+    expect(classifySyncError({ message: '', code: '42501', status: 403 })).toBe('permanent');
+  });
+});
+
+describe('enqueueMutation', () => {
+  it('coalesces consecutive edits of a row into the latest one', async () => {
+    await enqueueMutation(tagMutation('a', 'first'));
+    await enqueueMutation(tagMutation('a', 'second'));
+
+    const queue = await db.mutations.toArray();
+    expect(queue).toHaveLength(1);
+    expect(queue[0].payload.name).toBe('second');
+  });
+
+  it('keeps an edit that a later mutation of another row points at', async () => {
+    await enqueueMutation(tagMutation('a', 'first'));
+    await enqueueMutation({ ...tagMutation('b', 'child'), table: 'items', payload: { id: 'b', categoryId: 'a' } });
+    await enqueueMutation(tagMutation('a', 'second'));
+
+    const queue = await db.mutations.orderBy('id').toArray();
+    expect(queue.map((mutation) => mutation.payload.name ?? mutation.payload.id)).toEqual(['first', 'b', 'second']);
+  });
+
+  it('drops pending edits of a row that gets deleted', async () => {
+    await enqueueMutation(tagMutation('a', 'first'));
+    await enqueueMutation({ ...tagMutation('a', ''), op: 'delete', payload: { id: 'a' } });
+
+    const queue = await db.mutations.toArray();
+    expect(queue.map((mutation) => mutation.op)).toEqual(['delete']);
+  });
+});
+
+describe('syncAll', () => {
+  it('pages through a table in keyset order, counting only on the first page', async () => {
+    // Rows sharing an updated_at across a page boundary must neither repeat nor go missing.
+    const rows = Array.from({ length: 503 }, (_, index) =>
+      remoteTag(`tag-${String(index).padStart(4, '0')}`, new Date(Date.UTC(2026, 8, 1, 0, Math.floor(index / 7))).toISOString()),
+    );
+    server.rows.set('tags', rows);
+
+    await syncAll();
+
+    expect(await db.tags.count()).toBe(503);
+    const tagPages = server.pageRequests.filter((request) => request.table === 'tags');
+    expect(tagPages.map((request) => request.withCount)).toEqual([true, false]);
+    expect(tagPages[1].after).toEqual({ updatedAt: rows[499].updated_at, id: rows[499].id });
+    expect(await db.syncState.get('tags')).toMatchObject({ watermark: rows[502].updated_at, watermarkId: rows[502].id });
+  });
+
+  it('picks up a row committed behind the watermark on the next pull', async () => {
+    server.rows.set('tags', [remoteTag('a', '2026-10-01T10:00:00.000Z'), remoteTag('b', '2026-10-01T10:05:00.000Z')]);
+    await syncAll();
+
+    // A transaction that started before the last pull and committed after it.
+    server.rows.set('tags', [...rowsOf('tags'), remoteTag('late', '2026-10-01T10:04:00.000Z')]);
+    const { tables } = await syncAll();
+
+    expect(await db.tags.get('late')).toBeDefined();
+    expect(tables).toEqual(['tags']);
+    const [latest] = await db.syncLog.orderBy('startedAt').reverse().toArray();
+    expect(latest.pulled).toBe(1);
+  });
+
+  it('stops on an expired session without counting an attempt', async () => {
+    await enqueueMutation(tagMutation('a', 'offline edit'));
+    server.upsertFailure = { message: 'JWT expired', code: 'PGRST301', status: 401 };
+
+    const { issues } = await syncAll();
+
+    const [pending] = await db.mutations.toArray();
+    expect(pending.attempts).toBe(0);
+    expect(await db.deadLetters.count()).toBe(0);
+    expect(server.pageRequests).toHaveLength(0);
+    expect(issues).toEqual([{ table: 'tags', message: 'JWT expired', code: 'PGRST301', status: 401 }]);
+
+    server.upsertFailure = null;
+    await syncAll();
+    expect(await db.mutations.count()).toBe(0);
+    expect(rowsOf('tags').map((row) => row.name)).toEqual(['offline edit']);
+  });
+
+  it('dead-letters rejected rows one by one instead of stopping the push', async () => {
+    await enqueueMutation(tagMutation('a', 'first'));
+    await enqueueMutation(tagMutation('b', 'second'));
+    server.upsertFailure = { message: 'duplicate key', code: '23505', status: 409 };
+
+    await syncAll();
+
+    const deadLetters = await db.deadLetters.toArray();
+    expect(deadLetters.map((deadLetter) => deadLetter.mutation.payload.name)).toEqual(['first', 'second']);
+    expect(deadLetters[0]).toMatchObject({ kind: 'permanent', attempts: 1 });
+    expect(await db.mutations.count()).toBe(0);
+  });
+});
@@ -1,251 +1,627 @@
-import { db } from './db';
-import { isSupabaseEnabled, supabase } from './supabase';
-import type { CalendarEvent, Mutation, PlanAction, PriorityCategory, UserProfile } from './types';
-
-type SyncTable = 'categories' | 'actions' | 'events' | 'profiles';
-
-type RemoteCategory = {
-  id: string;
-  title: string;
-  owner: string;
-  owner_user_id: string | null;
-  color: string;
-  color_name: string | null;
-  created_at: string;
-  updated_at: string;
-};
-
-type RemoteAction = {
-  id: string;
-  category_id: string;
-  title: string;
-  percent_complete: number;
-  due_date: string | null;
-  reminders: string[];
-  mention_user_ids: string[];
-  created_at: string;
-  updated_at: string;
-};
-
-type RemoteEvent = {
-  id: string;
-  category_id: string | null;
-  title: string;
-  description: string;
-  starts_at: string;
-  ends_at: string;
-  recurrence_rule: string | null;
-  exception_dates: string[];
-  reminders: string[];
-  mention_user_ids: string[];
-  color: string;
-  color_name: string | null;
-  attachment_name: string | null;
-  attachment_data_url: string | null;
-  created_at: string;
-  updated_at: string;
-};
-
-type RemoteProfile = {
-  id: string;
-  email: string | null;
-  display_name: string;
-  created_at: string;
-  updated_at: string;
-};
-
-const tableNames: SyncTable[] = ['categories', 'actions', 'events', 'profiles'];
-
-const toRemote = (table: SyncTable, payload: Record<string, unknown>) => {
-  if (table === 'categories') {
-    const data = payload as PriorityCategory;
-    const remote: RemoteCategory = {
-      id: data.id,
-      title: data.title,
-      owner: data.owner,
-      owner_user_id: data.ownerUserId,
-      color: data.color,
-      color_name: data.colorName,
-      created_at: data.createdAt,
-      updated_at: data.updatedAt,
-    };
-    return remote;
-  }
-
-  if (table === 'actions') {
-    const data = payload as PlanAction;
-    const remote: RemoteAction = {
-      id: data.id,
-      category_id: data.categoryId,
-      title: data.title,
-      percent_complete: data.percentComplete,
-      due_date: data.dueDate,
-      reminders: data.reminders,
-      mention_user_ids: data.mentionUserIds,
-      created_at: data.createdAt,
-      updated_at: data.updatedAt,
-    };
-    return remote;
+import { syncAdapter } from './adapters';
+import type { RemoteRow, SyncAdapter, SyncFailure } from './adapters/types';
+import { decideConflict, loadConflictPolicies } from './conflicts';
+import { createId, db, nowIso } from './db';
+import { decodeRow, encodeRow } from './schema';
+import type {
+  ConflictPolicy,
+  Mutation,
+  PullProgress,
+  QuarantinedRow,
+  SyncBase,
+  SyncCursor,
+  SyncErrorKind,
+  SyncIssue,
+  SyncLogEntry,
+  SyncSource,
+  SyncTable,
+} from './types';
+
+export type SyncOptions = {
+  full?: boolean;
+  source?: SyncSource;
+  onProgress?: (progress: PullProgress) => void;
+};
+
+export type SyncReport = {
+  tables: SyncTable[];
+  issues: SyncIssue[];
+};
+
+type SyncRun = {
+  adapter: SyncAdapter;
+  issues: SyncIssue[];
+  pulled: number;
+  // Set once the backend rejects the session: nothing else can get through until a new login.
+  authExpired: boolean;
+};
+
+export const tableNames: SyncTable[] = ['tags', 'categories', 'items', 'actions', 'subtasks', 'events', 'profiles'];
+const maxTransientAttempts = 8;
+const syncLockName = 'planest-sync';
+const syncLogLimit = 100;
+const pullPageSize = 500;
+const clockOffsetSettingKey = 'serverClockOffsetMs';
+// updated_at is stamped when a transaction starts, so a slow one can commit rows older than
+// a watermark already pulled. Delta pulls start this far back to pick those up.
+const pullSafetyWindowMs = 2 * 60_000;
+const transientErrorCodes = ['08', '40001', '40P01', '53', '57P'];
+
+const rowIdOf = (mutation: Mutation): string => String(mutation.payload.id);
+
+const referencesRow = (mutation: Mutation, rowId: string): boolean =>
+  mutation.op === 'upsert' &&
+  rowIdOf(mutation) !== rowId &&
+  Object.values(mutation.payload).some((value) => value === rowId || (Array.isArray(value) && value.includes(rowId)));
+
+// A pending upsert can only be dropped when no later mutation of another row points at
+// it: pushing that later row first would break its foreign key.
+const isSuperseded = (queue: Mutation[], pending: Mutation): boolean =>
+  !queue.some((entry) => (entry.id ?? 0) > (pending.id ?? 0) && referencesRow(entry, rowIdOf(pending)));
+
+export const enqueueMutation = async (mutation: Mutation): Promise<void> => {
+  const rowId = rowIdOf(mutation);
+  await db.transaction('rw', db.mutations, async () => {
+    const queue = await db.mutations.orderBy('id').toArray();
+    const pendingForRow = queue.filter((entry) => entry.table === mutation.table && rowIdOf(entry) === rowId);
+    const latest = pendingForRow.at(-1);
+
+    if (mutation.op === 'upsert') {
+      if (latest?.op === 'upsert' && isSuperseded(queue, latest)) {
+        await db.mutations.delete(latest.id as number);
+        await db.mutations.add({ ...mutation, createdAt: latest.createdAt });
+        return;
+      }
+      await db.mutations.add(mutation);
+      return;
+    }
+
+    const superseded = pendingForRow.filter((entry) => entry.op === 'upsert' && isSuperseded(queue, entry));
+    await db.mutations.bulkDelete(superseded.map((entry) => entry.id as number));
+    await db.mutations.add(mutation);
+  });
+};
+
+const pendingMutationsForRow = (table: SyncTable, rowId: string): Promise<Mutation[]> =>
+  db.mutations
+    .where('table')
+    .equals(table)
+    .filter((mutation) => rowIdOf(mutation) === rowId)
+    .sortBy('id');
+
+const dropPendingForRow = async (table: SyncTable, rowId: string, keep?: Mutation): Promise<void> => {
+  const pending = await pendingMutationsForRow(table, rowId);
+  const ids = pending.filter((mutation) => mutation.id !== keep?.id).map((mutation) => mutation.id as number);
+  await db.mutations.bulkDelete(ids);
+};
+
+const settleMutation = async (mutation: Mutation): Promise<void> => {
+  if (mutation.id !== undefined) {
+    await db.mutations.delete(mutation.id);
   }
+};
 
-  if (table === 'profiles') {
-    const profile = payload as UserProfile;
-    const remoteProfile: RemoteProfile = {
-      id: profile.id,
-      email: profile.email,
-      display_name: profile.displayName,
-      created_at: profile.createdAt,
-      updated_at: profile.updatedAt,
-    };
-    return remoteProfile;
-  }
-
-  const data = payload as CalendarEvent;
-  const remote: RemoteEvent = {
-    id: data.id,
-    category_id: data.categoryId,
-    title: data.title,
-    description: data.description,
-    starts_at: data.startsAt,
-    ends_at: data.endsAt,
-    recurrence_rule: data.recurrenceRule,
-    exception_dates: data.exceptionDates,
-    reminders: data.reminders,
-    mention_user_ids: data.mentionUserIds,
-    color: data.color,
-    color_name: data.colorName,
-    attachment_name: data.attachmentName,
-    attachment_data_url: data.attachmentDataUrl,
-    created_at: data.createdAt,
-    updated_at: data.updatedAt,
-  };
-  return remote;
-};
-
-const toLocal = (table: SyncTable, payload: Record<string, unknown>) => {
-  if (table === 'categories') {
-    const data = payload as RemoteCategory;
-    const local: PriorityCategory = {
-      id: data.id,
-      title: data.title,
-      owner: data.owner,
-      ownerUserId: data.owner_user_id,
-      color: data.color,
-      colorName: data.color_name ?? null,
-      createdAt: data.created_at,
-      updatedAt: data.updated_at,
-    };
-    return local;
-  }
-
-  if (table === 'actions') {
-    const data = payload as RemoteAction;
-    const local: PlanAction = {
-      id: data.id,
-      categoryId: data.category_id,
-      title: data.title,
-      percentComplete: data.percent_complete,
-      dueDate: data.due_date,
-      reminders: data.reminders,
-      mentionUserIds: data.mention_user_ids ?? [],
-      createdAt: data.created_at,
-      updatedAt: data.updated_at,
-    };
-    return local;
+// Server rows that fail the schema are parked in the quarantine table instead of being
+// written locally; a later valid version of the same row lifts the quarantine.
+const quarantineRow = async (table: SyncTable, remote: RemoteRow, errors: string[]): Promise<void> => {
+  await db.quarantine.put({ table, rowId: remote.id, row: remote, errors, receivedAt: nowIso() });
+};
+
+const toLocal = async (table: SyncTable, remote: RemoteRow): Promise<Record<string, unknown> | null> => {
+  const decoded = decodeRow(table, remote);
+  if (!decoded.ok) {
+    await quarantineRow(table, remote, decoded.errors);
+    return null;
   }
+  return decoded.row;
+};
 
-  if (table === 'profiles') {
-    const profile = payload as RemoteProfile;
-    const localProfile: UserProfile = {
-      id: profile.id,
-      email: profile.email,
-      displayName: profile.display_name,
-      createdAt: profile.created_at,
-      updatedAt: profile.updated_at,
-    };
-    return localProfile;
-  }
-
-  const data = payload as RemoteEvent;
-  const local: CalendarEvent = {
-    id: data.id,
-    categoryId: data.category_id,
-    title: data.title,
-    description: data.description ?? '',
-    startsAt: data.starts_at,
-    endsAt: data.ends_at,
-    recurrenceRule: data.recurrence_rule,
-    exceptionDates: data.exception_dates ?? [],
-    reminders: data.reminders,
-    mentionUserIds: data.mention_user_ids ?? [],
-    color: data.color,
-    colorName: data.color_name ?? null,
-    attachmentName: data.attachment_name,
-    attachmentDataUrl: data.attachment_data_url,
-    createdAt: data.created_at,
-    updatedAt: data.updated_at,
-  };
-  return local;
+const storeBase = async (table: SyncTable, remote: RemoteRow): Promise<void> => {
+  const row = await toLocal(table, remote);
+  if (row) {
+    await db.syncBase.put({ table, id: remote.id, updatedAt: remote.updated_at, row });
+  }
 };
 
-export const enqueueMutation = async (mutation: Mutation): Promise<void> => {
-  await db.mutations.add(mutation);
+const applyRemoteLocally = async (table: SyncTable, remote: RemoteRow): Promise<void> => {
+  const row = await toLocal(table, remote);
+  if (row) {
+    await db.table(table).put(row);
+    await db.syncBase.put({ table, id: remote.id, updatedAt: remote.updated_at, row });
+  }
 };
 
-const pushMutations = async (): Promise<void> => {
-  if (!isSupabaseEnabled || !supabase) {
-    return;
+// Server time minus device time, measured on the rows the server stamped at the last push.
+const loadClockOffset = async (): Promise<number> => {
+  const stored = await db.settings.get(clockOffsetSettingKey);
+  return typeof stored?.value === 'number' ? stored.value : 0;
+};
+
+const measureClockOffset = async (rows: RemoteRow[]): Promise<void> => {
+  const receivedAt = Date.now();
+  const stamped = Math.max(...rows.map((row) => Date.parse(row.updated_at)).filter((time) => !Number.isNaN(time)));
+  if (Number.isFinite(stamped)) {
+    await db.settings.put({ key: clockOffsetSettingKey, value: stamped - receivedAt });
   }
+};
 
-  const queue = await db.mutations.orderBy('id').toArray();
-  for (const mutation of queue) {
-    const table = mutation.table;
-    const payload = toRemote(table, mutation.payload);
+const recordConflict = async (
+  table: SyncTable,
+  rowId: string,
+  policy: ConflictPolicy,
+  fields: string[],
+  local: Record<string, unknown>,
+  remote: Record<string, unknown>,
+): Promise<void> => {
+  await db.conflicts.where('[table+rowId]').equals([table, rowId]).delete();
+  await db.conflicts.add({ table, rowId, policy, fields, local, remote, detectedAt: nowIso() });
+};
 
-    const { error } =
-      mutation.op === 'upsert'
-        ? await supabase.from(table).upsert(payload)
-        : await supabase.from(table).delete().eq('id', String((payload as { id: string }).id));
+// Called when the server row changed after the version our pending edit started from.
+// Returns the row to push, or null when the mutation was settled without pushing it.
+const settleConflict = async (
+  mutation: Mutation,
+  base: SyncBase,
+  remote: RemoteRow,
+  policy: ConflictPolicy,
+): Promise<Record<string, unknown> | null> => {
+  const table = mutation.table;
+  const rowId = remote.id;
 
-    if (error) {
+  if (remote.deleted_at) {
+    await dropPendingForRow(table, rowId);
+    await db.table(table).delete(rowId);
+    await db.syncBase.delete([table, rowId]);
+    return null;
+  }
+
+  if (remote.updated_at === base.updatedAt) {
+    return mutation.payload;
+  }
+
+  const pending = await pendingMutationsForRow(table, rowId);
+  if (pending.some((entry) => entry.op === 'delete')) {
+    return mutation.payload;
+  }
+
+  const local = pending.at(-1)?.payload ?? mutation.payload;
+  const remoteLocal = await toLocal(table, remote);
+  if (!remoteLocal) {
+    return mutation.payload;
+  }
+  const decision = decideConflict(table, policy, {
+    base: base.row,
+    local,
+    remote: remoteLocal,
+    createCopyId: createId,
+    clockOffsetMs: await loadClockOffset(),
+  });
+
+  if (decision.clashes.length > 0) {
+    await recordConflict(table, rowId, policy, decision.clashes, local, remoteLocal);
+  }
+
+  if (decision.outcome === 'push') {
+    const row = { ...decision.row, updatedAt: nowIso() };
+    await dropPendingForRow(table, rowId, mutation);
+    await db.table(table).put(row);
+    return row;
+  }
+
+  await dropPendingForRow(table, rowId);
+  await applyRemoteLocally(table, remote);
+
+  if (decision.outcome === 'push-copy') {
+    await db.table(table).put(decision.copy);
+    await enqueueMutation({ table, op: 'upsert', payload: decision.copy, createdAt: nowIso() });
+  }
+  return null;
+};
+
+export const isAuthFailure = ({ code, status }: Pick<SyncIssue, 'code' | 'status'>): boolean =>
+  status === 401 || code === 'PGRST301' || code === 'unauthorized';
+
+export const classifySyncError = (failure: SyncFailure): SyncErrorKind => {
+  const { code, status } = failure;
+  if (isAuthFailure(failure)) {
+    return 'auth';
+  }
+  if (status === 0 || status === 408 || status === 429 || status >= 500) {
+    return 'transient';
+  }
+  if (code && transientErrorCodes.some((prefix) => code.startsWith(prefix))) {
+    return 'transient';
+  }
+  return 'permanent';
+};
+
+// Transient failures stay at the head of the queue and stop the push; permanent ones
+// (constraint violations, rejected by RLS, malformed rows) and mutations that kept failing
+// are moved to the dead-letter table. An expired session stops the push without counting
+// an attempt: the queue waits as it is for the next login. Returns true when the push can
+// move past the mutation.
+const handlePushFailure = async (run: SyncRun, mutation: Mutation, failure: SyncFailure): Promise<boolean> => {
+  run.issues.push({ table: mutation.table, ...failure });
+  const kind = classifySyncError(failure);
+  if (kind === 'auth') {
+    run.authExpired = true;
+    return false;
+  }
+  const attempts = (mutation.attempts ?? 0) + 1;
+  const error = failure.code ? `${failure.code}: ${failure.message}` : failure.message;
+
+  if (kind === 'transient' && attempts < maxTransientAttempts) {
+    if (mutation.id !== undefined) {
+      await db.mutations.update(mutation.id, { attempts, lastError: error });
+    }
+    return false;
+  }
+
+  await db.deadLetters.add({
+    mutation: { ...mutation, attempts, lastError: error },
+    kind,
+    error,
+    attempts,
+    failedAt: nowIso(),
+  });
+  await settleMutation(mutation);
+  return kind === 'permanent';
+};
+
+const batchSize = 100;
+
+// Consecutive mutations of the same table and operation go out in one request. A row
+// never appears twice in a batch so its own edits keep their order.
+const nextBatch = (queue: Mutation[], start: number): Mutation[] => {
+  const first = queue[start];
+  const batch = [first];
+  for (let index = start + 1; index < queue.length && batch.length < batchSize; index += 1) {
+    const entry = queue[index];
+    if (entry.table !== first.table || entry.op !== first.op || batch.some((item) => rowIdOf(item) === rowIdOf(entry))) {
       break;
     }
+    batch.push(entry);
+  }
+  return batch;
+};
 
-    if (mutation.id !== undefined) {
-      await db.mutations.delete(mutation.id);
+const pushDeletes = async (run: SyncRun, batch: Mutation[]): Promise<boolean> => {
+  const table = batch[0].table;
+  const rowIds = batch.map(rowIdOf);
+  const { error } = await run.adapter.deleteRows(table, rowIds);
+
+  if (error) {
+    if (batch.length > 1) {
+      for (const mutation of batch) {
+        if (!(await pushDeletes(run, [mutation]))) {
+          return false;
+        }
+      }
+      return true;
     }
+    return handlePushFailure(run, batch[0], error);
   }
+
+  await db.syncBase.bulkDelete(rowIds.map((id): [SyncTable, string] => [table, id]));
+  await db.mutations.bulkDelete(batch.map((mutation) => mutation.id as number));
+  return true;
 };
 
-const pullSnapshot = async (): Promise<void> => {
-  if (!isSupabaseEnabled || !supabase) {
-    return;
+const pushRows = async (
+  run: SyncRun,
+  table: SyncTable,
+  entries: Array<[Mutation, Record<string, unknown>]>,
+): Promise<boolean> => {
+  const { data, error } = await run.adapter.upsertRows(
+    table,
+    entries.map(([, payload]) => encodeRow(table, payload)),
+  );
+
+  if (error) {
+    if (entries.length > 1) {
+      for (const entry of entries) {
+        if (!(await pushRows(run, table, [entry]))) {
+          return false;
+        }
+      }
+      return true;
+    }
+    return handlePushFailure(run, entries[0][0], error);
   }
 
-  for (const table of tableNames) {
-    const { data, error } = await supabase.from(table).select('*');
-    if (error || !data) {
+  await measureClockOffset(data);
+  for (const row of data) {
+    await storeBase(table, row);
+  }
+  await db.mutations.bulkDelete(entries.map(([mutation]) => mutation.id as number));
+  return true;
+};
+
+const pushUpserts = async (run: SyncRun, batch: Mutation[], policy: ConflictPolicy): Promise<boolean> => {
+  const table = batch[0].table;
+  const bases = await db.syncBase.bulkGet(batch.map((mutation): [SyncTable, string] => [table, rowIdOf(mutation)]));
+  const knownIds = batch.filter((_, index) => bases[index]).map(rowIdOf);
+
+  const remoteById = new Map<string, RemoteRow>();
+  if (knownIds.length > 0) {
+    const { data, error } = await run.adapter.fetchRows(table, knownIds);
+    if (error) {
+      return handlePushFailure(run, batch[0], error);
+    }
+    for (const row of data) {
+      remoteById.set(row.id, row);
+    }
+  }
+
+  const entries: Array<[Mutation, Record<string, unknown>]> = [];
+  for (const [index, mutation] of batch.entries()) {
+    const base = bases[index];
+    const remote = remoteById.get(rowIdOf(mutation));
+    if (!base || !remote) {
+      entries.push([mutation, mutation.payload]);
+      continue;
+    }
+    const settled = await settleConflict(mutation, base, remote, policy);
+    if (settled) {
+      entries.push([mutation, settled]);
+    }
+  }
+
+  return entries.length === 0 ? true : pushRows(run, table, entries);
+};
+
+// Returns the tables the queue touched: settling a conflict can rewrite local rows.
+const pushMutations = async (run: SyncRun): Promise<SyncTable[]> => {
+  const policies = await loadConflictPolicies();
+  const queue = await db.mutations.orderBy('id').toArray();
+  const touched = Array.from(new Set(queue.map((mutation) => mutation.table)));
+  let index = 0;
+  while (index < queue.length) {
+    const batch = nextBatch(queue, index);
+    index += batch.length;
+
+    // Settling a conflict can drop later mutations of the same row from the queue.
+    const live = (await db.mutations.bulkGet(batch.map((mutation) => mutation.id as number))).filter(
+      (mutation): mutation is Mutation => Boolean(mutation),
+    );
+    if (live.length === 0) {
       continue;
     }
 
-    const localRows = data.map((row) => toLocal(table, row as Record<string, unknown>));
+    const pushed =
+      live[0].op === 'delete'
+        ? await pushDeletes(run, live)
+        : await pushUpserts(run, live, policies[live[0].table]);
+    if (!pushed) {
+      break;
+    }
+  }
+  return touched;
+};
+
+export const restoreRowFromRemote = async (table: SyncTable, rowId: string): Promise<void> => {
+  if (!syncAdapter || (await pendingMutationsForRow(table, rowId)).length > 0) {
+    return;
+  }
+
+  const { data, error } = await syncAdapter.fetchRows(table, [rowId]);
+  if (error) {
+    return;
+  }
+
+  const remote = data[0];
+  if (!remote || remote.deleted_at) {
+    await db.table(table).delete(rowId);
+    await db.syncBase.delete([table, rowId]);
+    return;
+  }
+  await applyRemoteLocally(table, remote);
+};
+
+const pendingRowIds = async (table: SyncTable): Promise<Set<string>> => {
+  const pending = await db.mutations.where('table').equals(table).toArray();
+  return new Set(pending.map((mutation) => String(mutation.payload.id)));
+};
+
+// Once a full pull has gone through every page, anything still stored locally that it did
+// not see was removed remotely (possibly before tombstones existed) and is dropped unless
+// it has local edits.
+const pruneUnseenRows = async (table: SyncTable): Promise<void> => {
+  const pending = await pendingRowIds(table);
+  const seen = await db.pullSeen.where('table').equals(table).toArray();
+  const seenIds = new Set(seen.map((entry) => entry.id));
+  const localIds = (await db.table<{ id: string }, string>(table).toCollection().primaryKeys()) as string[];
+  const staleIds = localIds.filter((id) => !seenIds.has(id) && !pending.has(id));
+  if (staleIds.length > 0) {
+    await db.table(table).bulkDelete(staleIds);
+    await db.syncBase.bulkDelete(staleIds.map((id): [SyncTable, string] => [table, id]));
+  }
+  await db.pullSeen.where('table').equals(table).delete();
+};
+
+// Rows with pending local edits are left alone: the push reconciles them against the
+// base version they started from, which must stay untouched until then. Resolves with
+// the number of rows that were quarantined.
+export const applyRemoteRows = async (table: SyncTable, remoteRows: RemoteRow[]): Promise<number> => {
+  const pending = await pendingRowIds(table);
+  const incoming: SyncBase[] = [];
+  const rejected: QuarantinedRow[] = [];
+  for (const remote of remoteRows.filter((row) => !row.deleted_at && !pending.has(row.id))) {
+    const decoded = decodeRow(table, remote);
+    if (decoded.ok) {
+      incoming.push({ table, id: remote.id, updatedAt: remote.updated_at, row: decoded.row });
+    } else {
+      rejected.push({ table, rowId: remote.id, row: remote, errors: decoded.errors, receivedAt: nowIso() });
+    }
+  }
+  const deletedIds = remoteRows.filter((row) => row.deleted_at).map((row) => row.id);
+
+  await db.table(table).bulkPut(incoming.map((base) => base.row));
+  await db.syncBase.bulkPut(incoming);
+  await db.quarantine.bulkDelete(
+    [...incoming.map((base) => base.id), ...deletedIds].map((id): [SyncTable, string] => [table, id]),
+  );
+  await db.quarantine.bulkPut(rejected);
+  if (deletedIds.length > 0) {
+    await db.table(table).bulkDelete(deletedIds);
+    await db.syncBase.bulkDelete(deletedIds.map((id): [SyncTable, string] => [table, id]));
+  }
+  return rejected.length;
+};
+
+// Rows the safety window brings back at the version already stored here.
+const alreadyApplied = async (table: SyncTable, rows: RemoteRow[]): Promise<Set<string>> => {
+  const ids = rows.map((row) => row.id);
+  const [bases, locals] = await Promise.all([
+    db.syncBase.bulkGet(ids.map((id): [SyncTable, string] => [table, id])),
+    db.table(table).bulkGet(ids),
+  ]);
+  return new Set(
+    rows
+      .filter((row, index) =>
+        row.deleted_at ? !bases[index] && !locals[index] : bases[index]?.updatedAt === row.updated_at,
+      )
+      .map((row) => row.id),
+  );
+};
+
+// Pages through the table in (updated_at, id) order and saves the cursor after every page,
+// so an interrupted pull resumes where it stopped instead of starting over. A delta pull
+// starts a safety window before its watermark; rows it finds already applied are skipped.
+const pullTable = async (run: SyncRun, table: SyncTable, options: SyncOptions): Promise<boolean> => {
+  const stored = await db.syncState.get(table);
+  let cursor: SyncCursor = stored ?? { table, watermark: null, watermarkId: null, pulledAt: null, fullPull: true };
+  let received = 0;
+  let total: number | null = null;
+  let changed = false;
+  let page = 0;
+
+  for (;;) {
+    const rewind = page === 0 && !cursor.fullPull && cursor.watermark !== null;
+    const after = !cursor.watermark
+      ? null
+      : rewind
+        ? { updatedAt: new Date(Date.parse(cursor.watermark) - pullSafetyWindowMs).toISOString(), id: '' }
+        : { updatedAt: cursor.watermark, id: cursor.watermarkId ?? '' };
+    const { data, error } = await run.adapter.fetchChanges(table, after, pullPageSize, page === 0);
+    page += 1;
+    if (error) {
+      run.issues.push({ table, ...error });
+      run.authExpired = classifySyncError(error) === 'auth';
+      return changed;
+    }
+
+    const { rows: pageRows, remaining } = data;
+    total ??= remaining;
+    received += pageRows.length;
+    const known = rewind ? await alreadyApplied(table, pageRows) : new Set<string>();
+    const rows = pageRows.filter((row) => !known.has(row.id));
+    run.pulled += rows.length;
+    const quarantined = await applyRemoteRows(table, rows);
+    if (quarantined > 0) {
+      run.issues.push({ table, message: `${quarantined} righe non valide messe in quarantena`, code: 'invalid_row', status: 0 });
+    }
 
-    if (table === 'categories') {
-      await db.categories.bulkPut(localRows as PriorityCategory[]);
+    const finished = pageRows.length < pullPageSize;
+    if (cursor.fullPull) {
+      await db.pullSeen.bulkPut(rows.filter((row) => !row.deleted_at).map((row) => ({ table, id: row.id })));
+      if (finished) {
+        await pruneUnseenRows(table);
+      }
     }
-    if (table === 'actions') {
-      await db.actions.bulkPut(localRows as PlanAction[]);
+
+    const last = pageRows.at(-1);
+    changed = changed || rows.length > 0 || Boolean(cursor.fullPull && finished);
+    cursor = {
+      table,
+      watermark: last?.updated_at ?? cursor.watermark,
+      watermarkId: last?.id ?? cursor.watermarkId ?? null,
+      pulledAt: nowIso(),
+      fullPull: Boolean(cursor.fullPull) && !finished,
+    };
+    await db.syncState.put(cursor);
+    options.onProgress?.({ table, received, total: Math.max(total ?? received, received) });
+
+    if (finished) {
+      return changed;
     }
-    if (table === 'events') {
-      await db.events.bulkPut(localRows as CalendarEvent[]);
+  }
+};
+
+const pullChanges = async (run: SyncRun, options: SyncOptions): Promise<SyncTable[]> => {
+  const changed: SyncTable[] = [];
+  for (const table of tableNames) {
+    if (run.authExpired) {
+      break;
     }
-    if (table === 'profiles') {
-      await db.profiles.bulkPut(localRows as UserProfile[]);
+    if (await pullTable(run, table, options)) {
+      changed.push(table);
     }
   }
+  return changed;
 };
 
-export const syncAll = async (): Promise<void> => {
-  await pushMutations();
-  await pullSnapshot();
+const recordSyncLog = async (entry: SyncLogEntry): Promise<void> => {
+  await db.syncLog.add(entry);
+  const stale = await db.syncLog.orderBy('startedAt').reverse().offset(syncLogLimit).primaryKeys();
+  if (stale.length > 0) {
+    await db.syncLog.bulkDelete(stale);
+  }
+};
+
+export const issueFromError = (error: unknown, table: SyncTable | null = null): SyncIssue => ({
+  table,
+  message: error instanceof Error ? error.message : String(error),
+  status: 0,
+});
+
+// Failures outside a sync run (a realtime batch, the work after a run) go to the sync log
+// as an entry of their own, so they surface like any other sync issue.
+export const recordSyncIssue = async (source: SyncSource, issue: SyncIssue): Promise<void> => {
+  const at = nowIso();
+  await recordSyncLog({ source, full: false, startedAt: at, finishedAt: at, pushed: 0, pulled: 0, issues: [issue] });
+};
+
+// Reports the tables whose local rows may have changed and every error met on the way;
+// each run is also kept in the sync log. The leader tab and the service worker share the
+// queue, so a Web Lock keeps their runs from overlapping.
+export const syncAll = async (options: SyncOptions = {}): Promise<SyncReport> => {
+  const adapter = syncAdapter;
+  if (!adapter) {
+    return { tables: [], issues: [] };
+  }
+
+  const execute = async (): Promise<SyncReport> => {
+    const run: SyncRun = { adapter, issues: [], pulled: 0, authExpired: false };
+    const startedAt = nowIso();
+    const queued = await db.mutations.count();
+    let tables: SyncTable[] = [];
+    try {
+      const pushed = await pushMutations(run);
+      if (options.full) {
+        await db.syncState.clear();
+        await db.pullSeen.clear();
+      }
+      const pulled = await pullChanges(run, options);
+      tables = Array.from(new Set([...pushed, ...pulled]));
+    } catch (error) {
+      run.issues.push(issueFromError(error));
+      throw error;
+    } finally {
+      await recordSyncLog({
+        source: options.source ?? 'app',
+        full: Boolean(options.full),
+        startedAt,
+        finishedAt: nowIso(),
+        pushed: Math.max(0, queued - (await db.mutations.count())),
+        pulled: run.pulled,
+        issues: run.issues,
+      });
+    }
+    return { tables, issues: run.issues };
+  };
+
+  return typeof navigator !== 'undefined' && navigator.locks
+    ? navigator.locks.request(syncLockName, execute)
+    : execute();
 };
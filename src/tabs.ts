@@ -0,0 +1,56 @@
+import type { SyncOptions } from './sync';
+import type { DataScope } from './types';
+
+export type TabMessage =
+  | { type: 'changed'; scopes: DataScope[] }
+  | { type: 'sync-request'; options: SyncOptions }
+  | { type: 'sync-status'; isSyncing: boolean; syncedAt: string | null };
+
+type TabCoordinatorOptions = {
+  onLeader: () => void;
+  onMessage: (message: TabMessage) => void;
+};
+
+export type TabCoordinator = {
+  post: (message: TabMessage) => void;
+  close: () => void;
+};
+
+const leaderLockName = 'planest-sync-leader';
+const channelName = 'planest-tabs';
+
+// One tab per browser holds the Web Lock and becomes the leader: it alone pushes the
+// mutation queue, keeps the realtime channel and fires reminders. The lock is released
+// when the tab closes, so the next waiting tab takes over. Without Web Locks every tab
+// leads, which is how the app behaved before coordination.
+export const startTabCoordinator = ({ onLeader, onMessage }: TabCoordinatorOptions): TabCoordinator => {
+  const channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(channelName);
+  const abort = new AbortController();
+  let releaseLock: (() => void) | null = null;
+
+  if (channel) {
+    channel.onmessage = (event: MessageEvent<TabMessage>) => onMessage(event.data);
+  }
+
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    navigator.locks
+      .request(leaderLockName, { signal: abort.signal }, () => {
+        onLeader();
+        return new Promise<void>((resolve) => {
+          releaseLock = resolve;
+        });
+      })
+      .catch(() => undefined);
+  } else {
+    onLeader();
+  }
+
+  return {
+    post: (message) => channel?.postMessage(message),
+    close: () => {
+      abort.abort();
+      releaseLock?.();
+      channel?.close();
+    },
+  };
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { fromWallClock, isoToZonedInput, toWallClock, zonedDayIso, zonedInputToIso, zonedRule } from './timeZones';
+
+const wall = (value: string): Date => new Date(`${value}Z`);
+
+describe('wall clock conversion', () => {
+  it('reads an instant as the local time of a zone', () => {
+    expect(toWallClock(new Date('2026-01-05T17:00:00.000Z'), 'Europe/Rome')).toEqual(wall('2026-01-05T18:00:00'));
+    expect(toWallClock(new Date('2026-07-06T16:00:00.000Z'), 'Europe/Rome')).toEqual(wall('2026-07-06T18:00:00'));
+  });
+
+  it('moves a time skipped by the spring change one hour later', () => {
+    expect(fromWallClock(wall('2026-03-29T02:30:00'), 'Europe/Rome').toISOString()).toBe('2026-03-29T01:30:00.000Z');
+  });
+
+  it('takes the first of the two instances of a repeated autumn time', () => {
+    expect(fromWallClock(wall('2026-10-25T02:30:00'), 'Europe/Rome').toISOString()).toBe('2026-10-25T00:30:00.000Z');
+  });
+
+  it('reads and writes datetime-local values in the given zone', () => {
+    expect(zonedInputToIso('2026-11-01T09:15', 'America/New_York')).toBe('2026-11-01T14:15:00.000Z');
+    expect(isoToZonedInput('2026-11-01T14:15:00.000Z', 'America/New_York')).toBe('2026-11-01T09:15');
+    expect(zonedInputToIso('', 'Europe/Rome')).toBeNull();
+  });
+
+  it('finds the calendar day of an instant in a zone', () => {
+    expect(zonedDayIso(new Date('2026-06-30T23:30:00.000Z'), 'Europe/Rome')).toBe('2026-07-01');
+    expect(zonedDayIso(new Date('2026-06-30T23:30:00.000Z'), 'America/Los_Angeles')).toBe('2026-06-30');
+  });
+});
+
+describe('zonedRule', () => {
+  it('keeps a weekly 18:00 event at 18:00 local across both DST changes', () => {
+    const rule = zonedRule('RRULE:FREQ=WEEKLY', '2026-03-16T17:00:00.000Z', 'Europe/Rome');
+    const occurrences = rule.between(new Date('2026-03-16T00:00:00.000Z'), new Date('2026-11-03T00:00:00.000Z'), true);
+
+    expect(occurrences.map((occurrence) => toWallClock(occurrence, 'Europe/Rome').toISOString().slice(11, 16))).toEqual(
+      Array(occurrences.length).fill('18:00'),
+    );
+    expect(occurrences.slice(1, 3).map((occurrence) => occurrence.toISOString())).toEqual([
+      '2026-03-23T17:00:00.000Z',
+      '2026-03-30T16:00:00.000Z',
+    ]);
+    expect(occurrences.at(-1)?.toISOString()).toBe('2026-11-02T17:00:00.000Z');
+  });
+
+  it('ends on the UNTIL day of the event zone', () => {
+    // 31 December at 23:59:59 in New York.
+    const rule = zonedRule('RRULE:FREQ=DAILY;UNTIL=20270101T045959Z', '2026-12-29T23:30:00.000Z', 'America/New_York');
+    const occurrences = rule.between(new Date('2026-12-01T00:00:00.000Z'), new Date('2027-02-01T00:00:00.000Z'), true);
+
+    expect(occurrences.map((occurrence) => zonedDayIso(occurrence, 'America/New_York'))).toEqual([
+      '2026-12-29',
+      '2026-12-30',
+      '2026-12-31',
+    ]);
+  });
+
+  it('finds the next occurrence after an instant', () => {
+    const rule = zonedRule('RRULE:FREQ=MONTHLY;BYMONTHDAY=1', '2026-01-01T08:00:00.000Z', 'Europe/Rome');
+    expect(rule.after(new Date('2026-04-15T00:00:00.000Z'))?.toISOString()).toBe('2026-05-01T07:00:00.000Z');
+    expect(rule.after(new Date('2026-05-01T07:00:00.000Z'), true)?.toISOString()).toBe('2026-05-01T07:00:00.000Z');
+  });
+});
@@ -0,0 +1,84 @@
+import { RRule } from 'rrule';
+import type { CalendarEvent } from './types';
+
+// rrule expands in UTC, so a series is expanded on "wall-clock" dates (the local time in the
+// event's zone written as if it were UTC) and each occurrence is mapped back to a real
+// instant. An 18:00 weekly event then stays at 18:00 in its zone across DST changes.
+
+export const deviceTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// Events saved before time zones existed follow the zone of the device showing them.
+export const eventTimeZone = (event: Pick<CalendarEvent, 'timeZone'>): string => event.timeZone ?? deviceTimeZone();
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const zoneOffsetMs = (instant: Date, timeZone: string): number => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(instant).map((part) => [part.type, Number(part.value)]));
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - (instant.getTime() - instant.getUTCMilliseconds());
+};
+
+export const toWallClock = (instant: Date, timeZone: string): Date =>
+  new Date(instant.getTime() + zoneOffsetMs(instant, timeZone));
+
+// Times skipped by a DST jump land one hour later, repeated ones on their first instance.
+export const fromWallClock = (wallClock: Date, timeZone: string): Date => {
+  const guess = wallClock.getTime() - zoneOffsetMs(wallClock, timeZone);
+  const offset = zoneOffsetMs(new Date(guess), timeZone);
+  const instant = wallClock.getTime() - offset;
+  const earlier = instant - 3600000;
+  return new Date(zoneOffsetMs(new Date(earlier), timeZone) === offset + 3600000 ? earlier : instant);
+};
+
+// The calendar day of an instant in the given zone, as yyyy-MM-dd.
+export const zonedDayIso = (instant: Date, timeZone: string): string => toWallClock(instant, timeZone).toISOString().slice(0, 10);
+
+// datetime-local values ("2026-03-29T18:00") read and written in the given zone.
+export const zonedInputToIso = (value: string, timeZone: string): string | null => {
+  const wallClock = new Date(`${value.length === 16 ? `${value}:00` : value}Z`);
+  return Number.isNaN(wallClock.getTime()) ? null : fromWallClock(wallClock, timeZone).toISOString();
+};
+
+export const isoToZonedInput = (iso: string | Date, timeZone: string): string =>
+  toWallClock(new Date(iso), timeZone).toISOString().slice(0, 16);
+
+export type ZonedRule = {
+  between: (after: Date, before: Date, inclusive?: boolean) => Date[];
+  after: (date: Date, inclusive?: boolean) => Date | null;
+};
+
+export const zonedRule = (recurrenceRule: string, startsAt: string, timeZone: string): ZonedRule => {
+  const options = RRule.parseString(recurrenceRule.replace(/^RRULE:/, ''));
+  const rule = new RRule({
+    ...options,
+    dtstart: toWallClock(new Date(startsAt), timeZone),
+    until: options.until ? toWallClock(options.until, timeZone) : null,
+  });
+  return {
+    between: (after, before, inclusive = false) =>
+      rule
+        .between(toWallClock(after, timeZone), toWallClock(before, timeZone), inclusive)
+        .map((occurrence) => fromWallClock(occurrence, timeZone)),
+    after: (date, inclusive = false) => {
+      const next = rule.after(toWallClock(date, timeZone), inclusive);
+      return next ? fromWallClock(next, timeZone) : null;
+    },
+  };
+};
+
+export const eventRule = (event: Pick<CalendarEvent, 'recurrenceRule' | 'startsAt' | 'timeZone'>): ZonedRule | null =>
+  event.recurrenceRule ? zonedRule(event.recurrenceRule, event.startsAt, eventTimeZone(event)) : null;
@@ -1,58 +1,132 @@
+import type { EntityOf, entitySchemas } from './schema';
+
 export type UUID = string;
 
-export type BaseEntity = {
-  id: UUID;
+export type SyncTable = 'tags' | 'categories' | 'items' | 'actions' | 'subtasks' | 'events' | 'profiles';
+
+export type UserProfile = EntityOf<typeof entitySchemas.profiles>;
+
+export type PlanTag = EntityOf<typeof entitySchemas.tags>;
+
+export type PriorityCategory = EntityOf<typeof entitySchemas.categories>;
+
+export type PlanItem = EntityOf<typeof entitySchemas.items>;
+
+export type PlanAction = EntityOf<typeof entitySchemas.actions>;
+
+export type ActionSubtask = EntityOf<typeof entitySchemas.subtasks>;
+
+export type CalendarEvent = EntityOf<typeof entitySchemas.events>;
+
+export type Mutation = {
+  id?: number;
+  table: SyncTable;
+  op: 'upsert' | 'delete';
+  payload: Record<string, unknown>;
   createdAt: string;
-  updatedAt: string;
+  attempts?: number;
+  lastError?: string | null;
+};
+
+// Slices of local state a tab can reload on its own.
+export type DataScope = SyncTable | 'conflicts' | 'deadLetters' | 'settings' | 'sync';
+
+// 'auth' failures (expired or missing session) wait for a new login and never dead-letter.
+export type SyncErrorKind = 'transient' | 'permanent' | 'auth';
+
+export type DeadLetter = {
+  id?: number;
+  mutation: Mutation;
+  kind: Exclude<SyncErrorKind, 'auth'>;
+  error: string;
+  attempts: number;
+  failedAt: string;
 };
 
-export type UserProfile = {
+export type SyncCursor = {
+  table: SyncTable;
+  watermark: string | null;
+  watermarkId?: string | null;
+  pulledAt: string | null;
+  fullPull?: boolean;
+};
+
+export type PullSeen = {
+  table: SyncTable;
+  id: UUID;
+};
+
+export type PullProgress = {
+  table: SyncTable;
+  received: number;
+  total: number;
+};
+
+export type SyncBase = {
+  table: SyncTable;
   id: UUID;
-  email: string | null;
-  displayName: string;
-  createdAt: string;
   updatedAt: string;
+  row: Record<string, unknown>;
 };
 
-export type PriorityCategory = BaseEntity & {
-  title: string;
-  owner: string;
-  ownerUserId: UUID | null;
-  color: string;
-  colorName: string | null;
+export type SyncSource = 'app' | 'background' | 'realtime';
+
+export type SyncIssue = {
+  table: SyncTable | null;
+  message: string;
+  code?: string;
+  status: number;
 };
 
-export type PlanAction = BaseEntity & {
-  categoryId: UUID;
-  title: string;
-  percentComplete: number;
-  dueDate: string | null;
-  reminders: string[];
-  mentionUserIds: UUID[];
+export type SyncLogEntry = {
+  id?: number;
+  source: SyncSource;
+  full: boolean;
+  startedAt: string;
+  finishedAt: string;
+  pushed: number;
+  pulled: number;
+  issues: SyncIssue[];
 };
 
-export type CalendarEvent = BaseEntity & {
-  categoryId: UUID | null;
-  title: string;
-  description: string;
-  startsAt: string;
-  endsAt: string;
-  recurrenceRule: string | null;
-  exceptionDates: string[];
-  reminders: string[];
-  mentionUserIds: UUID[];
-  color: string;
-  colorName: string | null;
-  attachmentName: string | null;
-  attachmentDataUrl: string | null;
+export type QuarantinedRow = {
+  table: SyncTable;
+  rowId: string;
+  row: Record<string, unknown>;
+  errors: string[];
+  receivedAt: string;
 };
 
-export type Mutation = {
+export type ConnectionState = 'local' | 'online' | 'offline' | 'auth-expired';
+
+export type SyncStatus = {
+  connection: ConnectionState;
+  pendingCount: number;
+  cursors: SyncCursor[];
+  lastError: SyncIssue | null;
+  progress: PullProgress | null;
+  quarantined: QuarantinedRow[];
+  history: SyncLogEntry[];
+};
+
+export type ConflictPolicy = 'last-writer-wins' | 'merge' | 'keep-both' | 'manual';
+
+export type ConflictResolution = 'local' | 'remote' | 'both';
+
+export type SyncConflict = {
   id?: number;
-  table: 'categories' | 'actions' | 'events' | 'profiles';
-  op: 'upsert' | 'delete';
-  payload: Record<string, unknown>;
-  createdAt: string;
+  table: SyncTable;
+  rowId: UUID;
+  policy: ConflictPolicy;
+  fields: string[];
+  local: Record<string, unknown>;
+  remote: Record<string, unknown>;
+  detectedAt: string;
+};
+
+export type Setting = {
+  key: string;
+  value: unknown;
 };
 
 export type WeeklySummary = {
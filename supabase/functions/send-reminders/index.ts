@@ -1,13 +1,22 @@
 import { serve } from 'https://deno.land/std@0.224.0/http/server.ts';
 import { createClient } from 'npm:@supabase/supabase-js@2.56.0';
 import webpush from 'npm:web-push@3.6.7';
+import { RRule } from 'npm:rrule@2.8.1';
 
 type EventRow = {
   id: string;
   title: string;
   starts_at: string;
+  time_zone: string | null;
+  recurrence_rule: string | null;
+  exception_dates: string[];
+  series_event_id: string | null;
+  recurrence_id: string | null;
   reminders: string[];
   mention_user_ids: string[];
+  rotation_user_ids: string[];
+  rotation_offset: number;
+  rotation_skips: string[];
 };
 
 type SubscriptionRow = {
@@ -25,6 +34,8 @@ const vapidPublicKey = Deno.env.get('VAPID_PUBLIC_KEY');
 const vapidPrivateKey = Deno.env.get('VAPID_PRIVATE_KEY');
 const vapidSubject = Deno.env.get('VAPID_SUBJECT') ?? 'mailto:admin@example.com';
 const cronSecret = Deno.env.get('CRON_SECRET');
+// Zone for events saved before time_zone existed; the app used to follow the device's zone.
+const defaultTimeZone = Deno.env.get('DEFAULT_TIME_ZONE') ?? 'Europe/Rome';
 
 if (!supabaseUrl || !serviceRoleKey || !vapidPublicKey || !vapidPrivateKey) {
   throw new Error('Missing required environment variables for send-reminders function');
@@ -36,6 +47,120 @@ const supabase = createClient(supabaseUrl, serviceRoleKey, {
   auth: { persistSession: false },
 });
 
+type SeriesRow = Pick<
+  EventRow,
+  'id' | 'starts_at' | 'time_zone' | 'recurrence_rule' | 'rotation_user_ids' | 'rotation_offset' | 'rotation_skips'
+>;
+
+// Same expansion as src/timeZones.ts: the rule runs on wall-clock times in the event's zone
+// (written as UTC) and each occurrence is mapped back to an instant, so DST changes keep
+// the local time.
+const zoneOffsetMs = (instant: Date, timeZone: string): number => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    })
+      .formatToParts(instant)
+      .map((part) => [part.type, Number(part.value)]),
+  );
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - (instant.getTime() - instant.getUTCMilliseconds());
+};
+
+const toWallClock = (instant: Date, timeZone: string): Date => new Date(instant.getTime() + zoneOffsetMs(instant, timeZone));
+
+const fromWallClock = (wallClock: Date, timeZone: string): Date => {
+  const offset = zoneOffsetMs(new Date(wallClock.getTime() - zoneOffsetMs(wallClock, timeZone)), timeZone);
+  const instant = wallClock.getTime() - offset;
+  const earlier = instant - 3600000;
+  return new Date(zoneOffsetMs(new Date(earlier), timeZone) === offset + 3600000 ? earlier : instant);
+};
+
+const zoneOf = (event: Pick<EventRow, 'time_zone'>): string => event.time_zone ?? defaultTimeZone;
+
+type SeriesRule = {
+  between: (after: Date, before: Date, inclusive: boolean) => Date[];
+  after: (date: Date, inclusive: boolean) => Date | null;
+};
+
+const seriesRule = (event: SeriesRow): SeriesRule | null => {
+  if (!event.recurrence_rule) {
+    return null;
+  }
+  const timeZone = zoneOf(event);
+  const options = RRule.parseString(event.recurrence_rule.replace('RRULE:', ''));
+  const rule = new RRule({
+    ...options,
+    dtstart: toWallClock(new Date(event.starts_at), timeZone),
+    until: options.until ? toWallClock(options.until, timeZone) : null,
+  });
+  return {
+    between: (after, before, inclusive) =>
+      rule
+        .between(toWallClock(after, timeZone), toWallClock(before, timeZone), inclusive)
+        .map((occurrence) => fromWallClock(occurrence, timeZone)),
+    after: (date, inclusive) => {
+      const next = rule.after(toWallClock(date, timeZone), inclusive);
+      return next ? fromWallClock(next, timeZone) : null;
+    },
+  };
+};
+
+// Same rules as src/rotation.ts: a series reminder belongs to the first occurrence at or
+// after it, an edited occurrence to the one it replaces, and occurrence k goes to member
+// (k + rotation_offset + turns skipped at or before it) mod n.
+const occurrenceForReminder = (event: EventRow, reminderAt: Date): Date | null => {
+  if (event.series_event_id && event.recurrence_id) {
+    return new Date(event.recurrence_id);
+  }
+  const rule = seriesRule(event);
+  return rule ? rule.after(reminderAt, true) : new Date(event.starts_at);
+};
+
+// Occurrence starts per series, expanded once per run up to the furthest occurrence asked for
+// instead of replaying the series for every reminder.
+const expandedSeries = new Map<string, { starts: number[]; through: number }>();
+
+const occurrenceIndex = (series: SeriesRow, occurrence: Date): number => {
+  const rule = seriesRule(series);
+  if (!rule) {
+    return 0;
+  }
+  const key = [series.id, series.starts_at, zoneOf(series), series.recurrence_rule].join('|');
+  const expanded = expandedSeries.get(key) ?? { starts: [], through: new Date(series.starts_at).getTime() - 1 };
+  expandedSeries.set(key, expanded);
+
+  const target = occurrence.getTime();
+  if (target > expanded.through) {
+    const from = expanded.through;
+    const starts = rule
+      .between(new Date(from), occurrence, true)
+      .map((start) => start.getTime())
+      .filter((start) => start > from);
+    expanded.starts = expanded.starts.concat(starts);
+    expanded.through = target;
+  }
+  return Math.max(0, expanded.starts.filter((start) => start <= target).length - 1);
+};
+
+const assigneeAt = (series: SeriesRow, occurrence: Date): string | null => {
+  const rotation = series.rotation_user_ids ?? [];
+  if (rotation.length === 0) {
+    return null;
+  }
+  const index = occurrenceIndex(series, occurrence);
+  const skips = (series.rotation_skips ?? []).filter((from) => new Date(from).getTime() <= occurrence.getTime()).length;
+  const count = rotation.length;
+  return rotation[(((index + (series.rotation_offset ?? 0) + skips) % count) + count) % count];
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Headers': '*' } });
@@ -48,12 +173,19 @@ serve(async (req) => {
     }
   }
 
+  expandedSeries.clear();
   const now = new Date();
   const lower = new Date(now.getTime() - 90_000);
   const upper = new Date(now.getTime() + 30_000);
 
   const [{ data: eventsData, error: eventsError }, { data: subsData, error: subsError }] = await Promise.all([
-    supabase.from('events').select('id,title,starts_at,reminders,mention_user_ids').neq('reminders', '{}'),
+    supabase
+      .from('events')
+      .select(
+        'id,title,starts_at,time_zone,recurrence_rule,exception_dates,series_event_id,recurrence_id,reminders,mention_user_ids,rotation_user_ids,rotation_offset,rotation_skips',
+      )
+      .neq('reminders', '{}')
+      .is('deleted_at', null),
     supabase.from('push_subscriptions').select('id,user_id,endpoint,p256dh,auth,is_active').eq('is_active', true),
   ]);
 
@@ -65,6 +197,36 @@ serve(async (req) => {
   }
 
   const events = (eventsData ?? []) as EventRow[];
+
+  // Edited occurrences replace series occurrences, and take their turns from the series.
+  const { data: overridesData, error: overridesError } = await supabase
+    .from('events')
+    .select('series_event_id,recurrence_id')
+    .not('series_event_id', 'is', null)
+    .is('deleted_at', null);
+  if (overridesError) {
+    return new Response(JSON.stringify({ error: overridesError.message }), { status: 500 });
+  }
+  const overridden = new Set(
+    ((overridesData ?? []) as Array<Pick<EventRow, 'series_event_id' | 'recurrence_id'>>).map(
+      (row) => `${row.series_event_id}:${row.recurrence_id}`,
+    ),
+  );
+
+  const seriesIds = Array.from(new Set(events.flatMap((event) => (event.series_event_id ? [event.series_event_id] : []))));
+  const seriesById = new Map<string, SeriesRow>(events.map((event) => [event.id, event]));
+  if (seriesIds.length > 0) {
+    const { data: seriesData, error: seriesError } = await supabase
+      .from('events')
+      .select('id,starts_at,time_zone,recurrence_rule,rotation_user_ids,rotation_offset,rotation_skips')
+      .in('id', seriesIds);
+    if (seriesError) {
+      return new Response(JSON.stringify({ error: seriesError.message }), { status: 500 });
+    }
+    for (const series of (seriesData ?? []) as SeriesRow[]) {
+      seriesById.set(series.id, series);
+    }
+  }
   const subscriptions = (subsData ?? []) as SubscriptionRow[];
   const subscriptionsByUser = new Map<string, SubscriptionRow[]>();
 
@@ -85,8 +247,21 @@ serve(async (req) => {
         continue;
       }
 
-      const recipients =
-        event.mention_user_ids && event.mention_user_ids.length > 0
+      const occurrence = occurrenceForReminder(event, reminderAt);
+      if (
+        !event.series_event_id &&
+        occurrence &&
+        (overridden.has(`${event.id}:${occurrence.toISOString()}`) ||
+          (event.exception_dates ?? []).includes(toWallClock(occurrence, zoneOf(event)).toISOString().slice(0, 10)))
+      ) {
+        skipped += 1;
+        continue;
+      }
+      const series = event.series_event_id ? seriesById.get(event.series_event_id) : event;
+      const assigneeUserId = series && occurrence ? assigneeAt(series, occurrence) : null;
+      const recipients = assigneeUserId
+        ? subscriptionsByUser.get(assigneeUserId) ?? []
+        : event.mention_user_ids && event.mention_user_ids.length > 0
           ? event.mention_user_ids.flatMap((id) => subscriptionsByUser.get(id) ?? [])
           : subscriptions;
 
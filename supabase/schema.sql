@@ -11,6 +11,15 @@ create table if not exists profiles (
   updated_at timestamptz not null default now()
 );
 
+create table if not exists tags (
+  id uuid primary key,
+  name text not null,
+  color text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  deleted_at timestamptz
+);
+
 create table if not exists categories (
   id uuid primary key,
   title text not null,
@@ -18,6 +27,15 @@ create table if not exists categories (
   owner_user_id uuid references profiles(id) on delete set null,
   color text not null,
   color_name text,
+  tag_ids uuid[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists items (
+  id uuid primary key,
+  category_id uuid not null references categories(id) on delete cascade,
+  title text not null,
   created_at timestamptz not null default now(),
   updated_at timestamptz not null default now()
 );
@@ -25,8 +43,20 @@ create table if not exists categories (
 create table if not exists actions (
   id uuid primary key,
   category_id uuid not null references categories(id) on delete cascade,
+  item_id uuid references items(id) on delete cascade,
   title text not null,
   percent_complete integer not null default 0 check (percent_complete >= 0 and percent_complete <= 100),
+  weight numeric not null default 1 check (weight > 0),
+  is_cancelled boolean not null default false,
+  progress_from_subtasks boolean not null default false,
+  blocked_by_ids uuid[] not null default '{}',
+  recurrence_rule text,
+  repeat_after_days integer check (repeat_after_days > 0),
+  series_id uuid,
+  rotation_user_ids uuid[] not null default '{}',
+  assignee_user_id uuid references profiles(id) on delete set null,
+  assignee_user_ids uuid[] not null default '{}',
+  tag_ids uuid[] not null default '{}',
   due_date timestamptz,
   reminders text[] not null default '{}',
   mention_user_ids uuid[] not null default '{}',
@@ -34,6 +64,17 @@ create table if not exists actions (
   updated_at timestamptz not null default now()
 );
 
+create table if not exists subtasks (
+  id uuid primary key,
+  action_id uuid not null references actions(id) on delete cascade,
+  title text not null,
+  is_done boolean not null default false,
+  position integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  deleted_at timestamptz
+);
+
 create table if not exists events (
   id uuid primary key,
   category_id uuid references categories(id) on delete set null,
@@ -41,10 +82,21 @@ create table if not exists events (
   description text not null default '',
   starts_at timestamptz not null,
   ends_at timestamptz not null,
+  time_zone text,
+  all_day boolean not null default false,
+  start_date date,
+  end_date date,
   recurrence_rule text,
   exception_dates text[] not null default '{}',
+  series_event_id uuid references events(id) on delete cascade,
+  recurrence_id text,
+  series_group_id uuid,
   reminders text[] not null default '{}',
   mention_user_ids uuid[] not null default '{}',
+  rotation_user_ids uuid[] not null default '{}',
+  rotation_offset integer not null default 0,
+  rotation_skips text[] not null default '{}',
+  tag_ids uuid[] not null default '{}',
   color text not null,
   color_name text,
   attachment_name text,
@@ -84,34 +136,230 @@ alter table events add column if not exists exception_dates text[] not null defa
 alter table events add column if not exists mention_user_ids uuid[] not null default '{}';
 alter table events add column if not exists color_name text;
 alter table events add column if not exists description text not null default '';
+alter table categories add column if not exists deleted_at timestamptz;
+alter table actions add column if not exists deleted_at timestamptz;
+alter table events add column if not exists deleted_at timestamptz;
 alter table push_subscriptions add column if not exists user_agent text;
 alter table push_subscriptions add column if not exists is_active boolean not null default true;
 alter table push_subscriptions add column if not exists last_seen_at timestamptz not null default now();
 
+alter table items add column if not exists category_id uuid references categories(id) on delete cascade;
+alter table items add column if not exists created_at timestamptz not null default now();
+alter table items add column if not exists updated_at timestamptz not null default now();
+alter table items add column if not exists deleted_at timestamptz;
+alter table actions add column if not exists item_id uuid references items(id) on delete cascade;
+alter table actions add column if not exists weight numeric not null default 1 check (weight > 0);
+alter table actions add column if not exists is_cancelled boolean not null default false;
+alter table actions add column if not exists progress_from_subtasks boolean not null default false;
+alter table actions add column if not exists blocked_by_ids uuid[] not null default '{}';
+alter table actions add column if not exists recurrence_rule text;
+alter table actions add column if not exists repeat_after_days integer check (repeat_after_days > 0);
+alter table actions add column if not exists series_id uuid;
+alter table actions add column if not exists rotation_user_ids uuid[] not null default '{}';
+alter table actions add column if not exists assignee_user_id uuid references profiles(id) on delete set null;
+alter table events add column if not exists rotation_user_ids uuid[] not null default '{}';
+alter table events add column if not exists rotation_offset integer not null default 0;
+alter table categories add column if not exists tag_ids uuid[] not null default '{}';
+alter table actions add column if not exists tag_ids uuid[] not null default '{}';
+alter table events add column if not exists tag_ids uuid[] not null default '{}';
+alter table events add column if not exists series_event_id uuid references events(id) on delete cascade;
+alter table events add column if not exists recurrence_id text;
+alter table events add column if not exists series_group_id uuid;
+alter table events add column if not exists time_zone text;
+alter table events add column if not exists all_day boolean not null default false;
+alter table events add column if not exists start_date date;
+alter table events add column if not exists end_date date;
+alter table events add column if not exists rotation_skips text[] not null default '{}';
+
+-- Before explicit assignees the people tagged in the title were the de facto owners, so
+-- they become the initial assignees, once, when the column appears.
 do $$
 begin
-  if exists (
-    select 1
-    from information_schema.columns
-    where table_schema = 'public' and table_name = 'actions' and column_name = 'item_id'
-  ) and exists (
-    select 1
-    from information_schema.tables
-    where table_schema = 'public' and table_name = 'items'
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'actions' and column_name = 'assignee_user_ids'
   ) then
-    execute '
-      update actions
-      set category_id = items.category_id
-      from items
-      where actions.item_id = items.id
-        and actions.category_id is null
-    ';
-    execute 'alter table actions drop column if exists item_id';
+    alter table actions add column assignee_user_ids uuid[] not null default '{}';
+    update actions set assignee_user_ids = mention_user_ids;
   end if;
-end $$;
+end;
+$$;
+
+-- Priorita -> Voce -> Azione. Actions created before the middle level existed land in one
+-- "Generale" item per priority. Its id is derived from the priority id (every hex digit
+-- complemented) so clients migrating offline compute the very same row.
+create or replace function public.default_item_id(category uuid)
+returns uuid
+language sql
+immutable
+as $$
+  select translate(category::text, '0123456789abcdef', 'fedcba9876543210')::uuid;
+$$;
+
+update actions
+set category_id = items.category_id
+from items
+where actions.item_id = items.id
+  and actions.category_id is null;
+
+insert into items (id, category_id, title)
+select distinct public.default_item_id(actions.category_id), actions.category_id, 'Generale'
+from actions
+where actions.item_id is null
+  and actions.category_id is not null
+on conflict (id) do nothing;
+
+update actions
+set item_id = public.default_item_id(category_id)
+where item_id is null;
 
 alter table actions alter column category_id set not null;
-drop table if exists items cascade;
+alter table actions alter column item_id set not null;
+
+-- Server-stamped updated_at: clients pull deltas with updated_at > last seen value,
+-- so the timestamp must not depend on device clocks.
+create or replace function public.touch_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists touch_profiles_updated_at on profiles;
+create trigger touch_profiles_updated_at
+before insert or update on profiles
+for each row execute procedure public.touch_updated_at();
+
+drop trigger if exists touch_tags_updated_at on tags;
+create trigger touch_tags_updated_at
+before insert or update on tags
+for each row execute procedure public.touch_updated_at();
+
+drop trigger if exists touch_categories_updated_at on categories;
+create trigger touch_categories_updated_at
+before insert or update on categories
+for each row execute procedure public.touch_updated_at();
+
+drop trigger if exists touch_items_updated_at on items;
+create trigger touch_items_updated_at
+before insert or update on items
+for each row execute procedure public.touch_updated_at();
+
+drop trigger if exists touch_actions_updated_at on actions;
+create trigger touch_actions_updated_at
+before insert or update on actions
+for each row execute procedure public.touch_updated_at();
+
+drop trigger if exists touch_subtasks_updated_at on subtasks;
+create trigger touch_subtasks_updated_at
+before insert or update on subtasks
+for each row execute procedure public.touch_updated_at();
+
+drop trigger if exists touch_events_updated_at on events;
+create trigger touch_events_updated_at
+before insert or update on events
+for each row execute procedure public.touch_updated_at();
+
+-- Soft delete: clients set deleted_at instead of removing rows, so the tombstone reaches
+-- every device through the delta pull. A deleted priority takes its items and actions
+-- along, a deleted item its actions, a deleted action its subtasks.
+create or replace function public.cascade_category_tombstone()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.deleted_at is not null and old.deleted_at is null then
+    update items set deleted_at = new.deleted_at where category_id = new.id and deleted_at is null;
+    update actions set deleted_at = new.deleted_at where category_id = new.id and deleted_at is null;
+    update events set category_id = null where category_id = new.id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists cascade_category_tombstone on categories;
+create trigger cascade_category_tombstone
+after update of deleted_at on categories
+for each row execute procedure public.cascade_category_tombstone();
+
+create or replace function public.cascade_item_tombstone()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.deleted_at is not null and old.deleted_at is null then
+    update actions set deleted_at = new.deleted_at where item_id = new.id and deleted_at is null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists cascade_item_tombstone on items;
+create trigger cascade_item_tombstone
+after update of deleted_at on items
+for each row execute procedure public.cascade_item_tombstone();
+
+create or replace function public.cascade_action_tombstone()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.deleted_at is not null and old.deleted_at is null then
+    update subtasks set deleted_at = new.deleted_at where action_id = new.id and deleted_at is null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists cascade_action_tombstone on actions;
+create trigger cascade_action_tombstone
+after update of deleted_at on actions
+for each row execute procedure public.cascade_action_tombstone();
+
+-- An edited occurrence is its own events row pointing at the series; it goes with it.
+create or replace function public.cascade_event_tombstone()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.deleted_at is not null and old.deleted_at is null then
+    update events set deleted_at = new.deleted_at where series_event_id = new.id and deleted_at is null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists cascade_event_tombstone on events;
+create trigger cascade_event_tombstone
+after update of deleted_at on events
+for each row execute procedure public.cascade_event_tombstone();
+
+create index if not exists profiles_updated_at_idx on profiles (updated_at);
+create index if not exists tags_updated_at_idx on tags (updated_at);
+create index if not exists categories_updated_at_idx on categories (updated_at);
+create index if not exists items_updated_at_idx on items (updated_at);
+create index if not exists actions_updated_at_idx on actions (updated_at);
+create index if not exists subtasks_updated_at_idx on subtasks (updated_at);
+create index if not exists events_updated_at_idx on events (updated_at);
+
+-- Realtime: clients subscribe to row changes on the shared planning tables.
+do $$
+declare
+  realtime_table text;
+begin
+  foreach realtime_table in array array['profiles', 'tags', 'categories', 'items', 'actions', 'subtasks', 'events'] loop
+    if not exists (
+      select 1
+      from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = realtime_table
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', realtime_table);
+    end if;
+  end loop;
+end $$;
 
 create or replace function public.handle_new_user_profile()
 returns trigger
@@ -140,8 +388,11 @@ after insert on auth.users
 for each row execute procedure public.handle_new_user_profile();
 
 alter table profiles enable row level security;
+alter table tags enable row level security;
 alter table categories enable row level security;
+alter table items enable row level security;
 alter table actions enable row level security;
+alter table subtasks enable row level security;
 alter table events enable row level security;
 alter table push_subscriptions enable row level security;
 
@@ -164,10 +415,22 @@ begin
     create policy authenticated_all_categories on categories for all using (auth.role() = 'authenticated') with check (auth.role() = 'authenticated');
   end if;
 
+  if not exists (select 1 from pg_policies where policyname = 'authenticated_all_items') then
+    create policy authenticated_all_items on items for all using (auth.role() = 'authenticated') with check (auth.role() = 'authenticated');
+  end if;
+
+  if not exists (select 1 from pg_policies where policyname = 'authenticated_all_tags') then
+    create policy authenticated_all_tags on tags for all using (auth.role() = 'authenticated') with check (auth.role() = 'authenticated');
+  end if;
+
   if not exists (select 1 from pg_policies where policyname = 'authenticated_all_actions') then
     create policy authenticated_all_actions on actions for all using (auth.role() = 'authenticated') with check (auth.role() = 'authenticated');
   end if;
 
+  if not exists (select 1 from pg_policies where policyname = 'authenticated_all_subtasks') then
+    create policy authenticated_all_subtasks on subtasks for all using (auth.role() = 'authenticated') with check (auth.role() = 'authenticated');
+  end if;
+
   if not exists (select 1 from pg_policies where policyname = 'authenticated_all_events') then
     create policy authenticated_all_events on events for all using (auth.role() = 'authenticated') with check (auth.role() = 'authenticated');
   end if;